@@ -0,0 +1,130 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { pathToFileURL } from 'node:url';
+
+// A stand-in for the AI servers the app talks to, answering every chat
+// request with a fixed reply so the providers in src/lib/ai can be exercised
+// without a network or a model. Each API is mounted under its own prefix:
+//
+//   /openai/v1     OpenAI chat completions (JSON and server-sent events)
+//   /anthropic/v1  Anthropic Messages API (JSON and server-sent events)
+//   /ollama        Ollama: /api/tags and /api/show, chat under /v1
+//
+// Run it on its own with `npm run ai:stub` and point the AI settings at it.
+
+export const STUB_MODEL = 'stub-model';
+// The context the stub runs its model with, well below what it was trained for
+export const STUB_CONTEXT_WINDOW = 4096;
+const STUB_TRAINED_CONTEXT = 131072;
+export const STUB_REPLY = 'This is the stub reply, streamed in pieces.';
+
+// The reply split into the pieces streamed one event at a time
+const STUB_PIECES = STUB_REPLY.match(/\S+\s*/g)!;
+
+const readBody = async (request: IncomingMessage) => {
+  let body = '';
+  for await (const chunk of request) body += chunk;
+  return body ? JSON.parse(body) : {};
+};
+
+const sendJson = (response: ServerResponse, status: number, body: unknown) => {
+  response.writeHead(status, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+  response.end(JSON.stringify(body));
+};
+
+const sendEvents = (response: ServerResponse, events: Array<{ event?: string, data: unknown }>) => {
+  response.writeHead(200, { 'Content-Type': 'text/event-stream', 'Access-Control-Allow-Origin': '*' });
+  for (const { event, data } of events) {
+    if (event) response.write(`event: ${event}\n`);
+    response.write(`data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`);
+  }
+  response.end();
+};
+
+const handleChatCompletions = (response: ServerResponse, body: { model?: string, stream?: boolean }) => {
+  if (body.model !== STUB_MODEL) {
+    return sendJson(response, 404, { error: { message: `model '${body.model}' not found` } });
+  }
+  if (!body.stream) {
+    return sendJson(response, 200, { choices: [{ message: { role: 'assistant', content: STUB_REPLY } }] });
+  }
+  sendEvents(response, [
+    ...STUB_PIECES.map(content => ({ data: { choices: [{ delta: { content } }] } })),
+    { data: '[DONE]' },
+  ]);
+};
+
+const handleMessages = (response: ServerResponse, body: { model?: string, stream?: boolean }) => {
+  if (body.model !== STUB_MODEL) {
+    return sendJson(response, 404, { type: 'error', error: { type: 'not_found_error', message: `model: ${body.model}` } });
+  }
+  if (!body.stream) {
+    return sendJson(response, 200, { content: [{ type: 'text', text: STUB_REPLY }] });
+  }
+  sendEvents(response, [
+    { event: 'message_start', data: { type: 'message_start' } },
+    { event: 'ping', data: { type: 'ping' } },
+    ...STUB_PIECES.map(text => ({
+      event: 'content_block_delta',
+      data: { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text } },
+    })),
+    { event: 'message_stop', data: { type: 'message_stop' } },
+  ]);
+};
+
+const route = async (request: IncomingMessage, response: ServerResponse) => {
+  const path = new URL(request.url!, 'http://localhost').pathname;
+  const body = request.method === 'POST' ? await readBody(request) : {};
+
+  switch (`${request.method} ${path}`) {
+    case 'POST /openai/v1/chat/completions':
+    case 'POST /ollama/v1/chat/completions':
+      return handleChatCompletions(response, body);
+    case 'GET /openai/v1/models':
+      return sendJson(response, 200, { data: [{ id: STUB_MODEL }] });
+    case 'POST /anthropic/v1/messages':
+      return handleMessages(response, body);
+    case 'GET /anthropic/v1/models':
+      return sendJson(response, 200, { data: [{ id: STUB_MODEL }] });
+    case 'GET /ollama/api/tags':
+      return sendJson(response, 200, { models: [{ name: STUB_MODEL }] });
+    case 'POST /ollama/api/show':
+      return sendJson(response, 200, {
+        model_info: { 'llama.context_length': STUB_TRAINED_CONTEXT },
+        parameters: `stop "<|eot_id|>"\nnum_ctx ${STUB_CONTEXT_WINDOW}`,
+      });
+    default:
+      return sendJson(response, 404, { error: `No stub for ${request.method} ${path}` });
+  }
+};
+
+// Starts the stub on the given port (0 picks a free one) and resolves with
+// the server and its base URL
+export const startStubServer = (port = 0) =>
+  new Promise<{ server: Server, url: string }>((resolve, reject) => {
+    const server = createServer((request, response) => {
+      if (request.method === 'OPTIONS') {
+        response.writeHead(204, {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Headers': '*',
+          'Access-Control-Allow-Methods': 'GET, POST',
+        });
+        return response.end();
+      }
+      route(request, response).catch(error => sendJson(response, 500, { error: String(error) }));
+    });
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}` });
+    });
+  });
+
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const { url } = await startStubServer(Number(process.env.PORT) || 11435);
+  console.log(`AI stub server listening on ${url}`);
+  console.log(`  OpenAI-compatible: ${url}/openai/v1`);
+  console.log(`  Anthropic:         ${url}/anthropic/v1`);
+  console.log(`  Local (Ollama):    ${url}/ollama`);
+  console.log(`  Model:             ${STUB_MODEL}`);
+}
@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import { AIProviderError, createProvider, DEFAULT_PROVIDER_SETTINGS, ProviderKind } from '../src/lib/ai';
+import { startStubServer, STUB_CONTEXT_WINDOW, STUB_MODEL, STUB_REPLY } from './ai-stub-server';
+
+// Runs complete, stream and listModels of every provider against the stub
+// server and exits non-zero on the first mismatch: `npm run check:ai`
+
+const BASE_PATHS: Record<ProviderKind, string> = {
+  openai: '/openai/v1',
+  anthropic: '/anthropic/v1',
+  local: '/ollama',
+};
+
+const { server, url } = await startStubServer();
+
+try {
+  for (const kind of Object.keys(BASE_PATHS) as ProviderKind[]) {
+    const provider = createProvider({
+      ...DEFAULT_PROVIDER_SETTINGS,
+      kind,
+      baseUrl: url + BASE_PATHS[kind],
+      apiKey: 'stub-key',
+      model: STUB_MODEL,
+    });
+    const messages = [{ role: 'user' as const, content: 'Hello' }];
+
+    assert.equal(await provider.complete({ messages }), STUB_REPLY, `${kind}: complete`);
+
+    const pieces: string[] = [];
+    for await (const piece of provider.stream({ messages })) pieces.push(piece);
+    assert.ok(pieces.length > 1, `${kind}: stream yields the reply in pieces`);
+    assert.equal(pieces.join(''), STUB_REPLY, `${kind}: stream`);
+
+    const models = await provider.listModels();
+    assert.deepEqual(models.map(model => model.id), [STUB_MODEL], `${kind}: listModels`);
+
+    await assert.rejects(
+      provider.complete({ messages, model: 'missing-model' }),
+      (error: unknown) => error instanceof AIProviderError && error.status === 404,
+      `${kind}: server errors surface as AIProviderError`
+    );
+
+    console.log(`ok ${kind}`);
+  }
+
+  // The local provider budgets against the context Ollama runs the model with
+  // (num_ctx), not the one it was trained for, and assumes a small one until
+  // the server has reported it
+  const local = createProvider({ ...DEFAULT_PROVIDER_SETTINGS, baseUrl: url + BASE_PATHS.local, model: 'llama3.1:8b' });
+  assert.ok(local.getTokenLimits().contextWindow < STUB_CONTEXT_WINDOW, 'local: small context before listing models');
+  await local.listModels();
+  assert.equal(local.getTokenLimits(STUB_MODEL).contextWindow, STUB_CONTEXT_WINDOW, 'local: reported context window');
+  console.log('ok local context window');
+} finally {
+  server.close();
+}
@@ -1,81 +1,112 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { PDFDocumentProxy } from 'pdfjs-dist';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Textarea } from '@/components/ui/textarea';
-import { BookOpen, MessageSquare, Search, Globe, Mic, X } from 'lucide-react';
-import { ScrollArea } from '@/components/ui/scroll-area';
+import { BookA, BookOpen, GitCompare, GraduationCap, MessageSquare, Search, Globe, LayoutTemplate, Settings, TableProperties, X } from 'lucide-react';
+import { useAISettings } from '@/hooks/use-ai-settings';
+import { ComparisonProgress } from '@/hooks/use-document-comparison';
+import { SelectionAction, TextSelection, buildSelectionQuestion } from '@/lib/prompts';
+import { RetrievedChunk } from '@/lib/retrieval';
+import { Citation } from '@/lib/citations';
+import { PageComparison } from '@/lib/compare';
+import { GlossaryEntry } from '@/lib/glossary-store';
+import AISettingsDialog from './AISettingsDialog';
+import AIChatPanel from './AIChatPanel';
+import AICompareChangesPanel from './AICompareChangesPanel';
+import AIExtractPanel from './AIExtractPanel';
+import AIGlossaryPanel from './AIGlossaryPanel';
+import AIStudyPanel from './AIStudyPanel';
+import AISummaryPanel from './AISummaryPanel';
+import AITemplatesPanel from './AITemplatesPanel';
+import AITranslatePanel from './AITranslatePanel';
 
 interface AIAssistantProps {
+  pdfDocument: PDFDocumentProxy | null;
+  // Fingerprint of the open document, used to keep one chat per document
+  documentId: string | null;
+  documentTitle: string;
+  // Finds the chunks of the whole document most relevant to a question
+  retrieve: (query: string) => Promise<RetrievedChunk[]>;
+  indexedPageCount: number;
+  // Text of every page extracted so far
+  documentTexts: Record<number, string>;
+  isTextComplete: boolean;
   pageText: string;
   currentPage: number;
   totalPages: number;
   onClose: () => void;
+  onCitationClick: (citation: Citation) => void;
+  // Set from the selection context menu; a new id starts a new request
+  selectionRequest?: (TextSelection & { action: SelectionAction, id: number }) | null;
+  // Opens the page and its translation side by side
+  onOpenSideBySide: (languageCode: string) => void;
+  glossary: GlossaryEntry[];
+  onGlossaryChange: (updater: (entries: GlossaryEntry[]) => GlossaryEntry[]) => void;
+  isGlossaryShown: boolean;
+  onGlossaryShownChange: (shown: boolean) => void;
+  // Set while another version of the document is open for comparison
+  comparison: { revisionTitle: string, pages: PageComparison[] | null, progress: ComparisonProgress | null } | null;
 }
 
-const AIAssistant: React.FC<AIAssistantProps> = ({ pageText, currentPage, totalPages, onClose }) => {
-  const [query, setQuery] = useState<string>('');
-  const [response, setResponse] = useState<string>('');
-  const [isLoading, setIsLoading] = useState<boolean>(false);
+const AIAssistant: React.FC<AIAssistantProps> = ({
+  pdfDocument,
+  documentId,
+  documentTitle,
+  retrieve,
+  indexedPageCount,
+  documentTexts,
+  isTextComplete,
+  pageText,
+  currentPage,
+  totalPages,
+  onClose,
+  onCitationClick,
+  selectionRequest,
+  onOpenSideBySide,
+  glossary,
+  onGlossaryChange,
+  isGlossaryShown,
+  onGlossaryShownChange,
+  comparison,
+}) => {
+  const [translateSelection, setTranslateSelection] = useState<TextSelection | null>(null);
+  const [templateSelection, setTemplateSelection] = useState<TextSelection | null>(null);
+  const [chatRequest, setChatRequest] = useState<{ question: string, pageNumber: number, send: boolean, id: number } | null>(null);
   const [activeTab, setActiveTab] = useState<string>('summary');
+  const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
+  const { isConfigured } = useAISettings();
 
-  const handleQuerySubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!query.trim() && activeTab !== 'summary') return;
-    
-    setIsLoading(true);
-    
-    try {
-      let prompt = '';
-      
-      switch (activeTab) {
-        case 'summary':
-          prompt = `Summarize the following text in a concise way:\n${pageText}`;
-          break;
-        case 'ask':
-          prompt = `Answer this question based on the text: ${query}\n\nText: ${pageText}`;
-          break;
-        case 'translate':
-          prompt = `Translate the following text to ${query || 'French'}:\n${pageText}`;
-          break;
-        default:
-          prompt = query;
-      }
-      
-      // Mock AI response functionality
-      // In a real implementation, this would call an API like OpenAI
-      await mockAIResponse(prompt, activeTab);
-    } catch (error) {
-      console.error('Error getting AI response:', error);
-      setResponse('Sorry, I encountered an error processing your request. Please try again.');
-    } finally {
-      setIsLoading(false);
+  useEffect(() => {
+    if (!selectionRequest) return;
+
+    const { action, id, ...selection } = selectionRequest;
+    if (action === 'translate') {
+      setActiveTab('translate');
+      setTranslateSelection(selection);
+    } else if (action === 'template') {
+      setActiveTab('templates');
+      setTemplateSelection(selection);
+    } else {
+      setActiveTab('ask');
+      setChatRequest({
+        question: buildSelectionQuestion(action, selection),
+        pageNumber: selection.pageNumber,
+        // "Ask…" only fills in the passage; the reader writes the question
+        send: action !== 'ask',
+        id,
+      });
     }
-  };
+  }, [selectionRequest]);
 
-  // Mock function to simulate AI responses
-  const mockAIResponse = async (prompt: string, tab: string) => {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    let mockResponse = '';
-    
-    switch (tab) {
-      case 'summary':
-        mockResponse = `## Summary of page ${currentPage}:\n\nThis is a simulated AI summary of the text. In a real implementation, this would use the OpenAI API or another AI service to generate an actual summary of the document content.\n\nThe summary would highlight key points from the page content, main topics, and important details.`;
-        break;
-      case 'ask':
-        mockResponse = `Based on the document content, here's the answer to your question:\n\n${query ? `"${query}"\n\n` : ''}This is a simulated AI response. In a real implementation, this would provide an answer based on the actual content of the PDF using an AI service like OpenAI's GPT.`;
-        break;
-      case 'translate':
-        mockResponse = `Translated text (${query || 'French'}):\n\nThis is a simulated translation. In a real implementation, this would provide an actual translation of the selected text using an AI service.`;
-        break;
-      default:
-        mockResponse = 'I don\'t understand that request. Please try again.';
+  // Opening a comparison shows its Changes tab, which goes away when it is closed
+  const revisionTitle = comparison?.revisionTitle ?? null;
+  useEffect(() => {
+    if (revisionTitle !== null) {
+      setActiveTab('changes');
+    } else {
+      setActiveTab(tab => (tab === 'changes' ? 'summary' : tab));
     }
-    
-    setResponse(mockResponse);
-  };
+  }, [revisionTitle]);
 
   return (
     <div className="flex flex-col h-full bg-white">
@@ -84,15 +115,29 @@ const AIAssistant: React.FC<AIAssistantProps> = ({ pageText, currentPage, totalP
           <MessageSquare className="h-5 w-5 text-pdf-primary" />
           <h2 className="font-medium">AI Assistant</h2>
         </div>
-        <Button variant="ghost" size="icon" onClick={onClose}>
-          <X className="h-4 w-4" />
-        </Button>
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="icon" title="AI settings" onClick={() => setIsSettingsOpen(true)}>
+            <Settings className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
       </div>
+
+      {!isConfigured && (
+        <div className="mx-4 mt-4 rounded border bg-slate-50 p-3 text-sm">
+          <p className="mb-2 text-muted-foreground">Connect a model server to use the assistant.</p>
+          <Button size="sm" variant="outline" onClick={() => setIsSettingsOpen(true)}>
+            Open AI settings
+          </Button>
+        </div>
+      )}
       
       <Tabs 
         value={activeTab} 
         onValueChange={setActiveTab}
-        className="flex flex-col flex-1"
+        className="flex flex-col flex-1 min-h-0"
       >
         <div className="px-4 pt-2">
           <TabsList className="w-full">
@@ -108,82 +153,144 @@ const AIAssistant: React.FC<AIAssistantProps> = ({ pageText, currentPage, totalP
               <Globe className="h-4 w-4 mr-2" />
               Translate
             </TabsTrigger>
+            <TabsTrigger value="templates" className="flex-1" title="Templates">
+              <LayoutTemplate className="h-4 w-4" />
+            </TabsTrigger>
+            <TabsTrigger value="extract" className="flex-1" title="Extract data">
+              <TableProperties className="h-4 w-4" />
+            </TabsTrigger>
+            <TabsTrigger value="glossary" className="flex-1" title="Glossary">
+              <BookA className="h-4 w-4" />
+            </TabsTrigger>
+            <TabsTrigger value="study" className="flex-1" title="Study">
+              <GraduationCap className="h-4 w-4" />
+            </TabsTrigger>
+            {comparison && (
+              <TabsTrigger value="changes" className="flex-1" title="Changes">
+                <GitCompare className="h-4 w-4" />
+              </TabsTrigger>
+            )}
           </TabsList>
         </div>
         
-        <TabsContent value="summary" className="flex-1 flex flex-col p-4">
-          <p className="text-sm text-muted-foreground mb-4">
-            Get an AI-generated summary of the current page content.
-          </p>
-          
-          <form onSubmit={handleQuerySubmit} className="mt-auto">
-            <Button 
-              type="submit" 
-              className="w-full"
-              disabled={isLoading || !pageText}
-            >
-              {isLoading ? 'Generating Summary...' : 'Generate Summary'}
-            </Button>
-          </form>
+        {/* Every tab stays mounted while hidden, so switching tabs neither
+            cancels a streaming answer or a long run nor drops its result */}
+        <TabsContent value="summary" forceMount className="flex-1 flex flex-col min-h-0 mt-0 data-[state=inactive]:hidden">
+          <AISummaryPanel
+            pdfDocument={pdfDocument}
+            documentTitle={documentTitle}
+            documentTexts={documentTexts}
+            isTextComplete={isTextComplete}
+            pageText={pageText}
+            currentPage={currentPage}
+            totalPages={totalPages}
+            isConfigured={isConfigured}
+            onRequireSettings={() => setIsSettingsOpen(true)}
+            onCitationClick={onCitationClick}
+          />
         </TabsContent>
         
-        <TabsContent value="ask" className="flex-1 flex flex-col p-4">
-          <p className="text-sm text-muted-foreground mb-4">
-            Ask questions about the content of the current page.
-          </p>
-          
-          <form onSubmit={handleQuerySubmit} className="flex flex-col gap-4 mt-auto">
-            <Textarea
-              placeholder="Ask a question about this page..."
-              value={query}
-              onChange={(e) => setQuery(e.target.value)}
-              className="resize-none"
-              rows={3}
-            />
-            
-            <Button 
-              type="submit" 
-              disabled={isLoading || !query.trim() || !pageText}
-            >
-              {isLoading ? 'Processing...' : 'Ask AI'}
-            </Button>
-          </form>
+        <TabsContent value="ask" forceMount className="flex-1 flex flex-col min-h-0 mt-0 data-[state=inactive]:hidden">
+          <AIChatPanel
+            documentId={documentId}
+            documentTitle={documentTitle}
+            retrieve={retrieve}
+            indexedPageCount={indexedPageCount}
+            totalPages={totalPages}
+            pageText={pageText}
+            documentTexts={documentTexts}
+            currentPage={currentPage}
+            request={chatRequest}
+            onRequestHandled={() => setChatRequest(null)}
+            isConfigured={isConfigured}
+            onRequireSettings={() => setIsSettingsOpen(true)}
+            onCitationClick={onCitationClick}
+          />
         </TabsContent>
         
-        <TabsContent value="translate" className="flex-1 flex flex-col p-4">
-          <p className="text-sm text-muted-foreground mb-4">
-            Translate the content of the current page.
-          </p>
-          
-          <form onSubmit={handleQuerySubmit} className="flex flex-col gap-4 mt-auto">
-            <input
-              type="text"
-              placeholder="Target language (e.g., Spanish, French)"
-              value={query}
-              onChange={(e) => setQuery(e.target.value)}
-              className="w-full p-2 border rounded"
-            />
-            
-            <Button 
-              type="submit" 
-              disabled={isLoading || !pageText}
-            >
-              {isLoading ? 'Translating...' : 'Translate'}
-            </Button>
-          </form>
+        <TabsContent value="translate" forceMount className="flex-1 flex flex-col min-h-0 mt-0 data-[state=inactive]:hidden">
+          <AITranslatePanel
+            pageText={pageText}
+            currentPage={currentPage}
+            selection={translateSelection}
+            onClearSelection={() => setTranslateSelection(null)}
+            isConfigured={isConfigured}
+            onRequireSettings={() => setIsSettingsOpen(true)}
+            onCitationClick={onCitationClick}
+            onOpenSideBySide={onOpenSideBySide}
+          />
         </TabsContent>
+
+        <TabsContent value="templates" forceMount className="flex-1 flex flex-col min-h-0 mt-0 data-[state=inactive]:hidden">
+          <AITemplatesPanel
+            documentTitle={documentTitle}
+            pageText={pageText}
+            currentPage={currentPage}
+            selection={templateSelection}
+            onClearSelection={() => setTemplateSelection(null)}
+            isConfigured={isConfigured}
+            onRequireSettings={() => setIsSettingsOpen(true)}
+            onCitationClick={onCitationClick}
+          />
+        </TabsContent>
+
+        <TabsContent value="extract" forceMount className="flex-1 flex flex-col min-h-0 mt-0 data-[state=inactive]:hidden">
+          <AIExtractPanel
+            documentId={documentId}
+            documentTitle={documentTitle}
+            documentTexts={documentTexts}
+            currentPage={currentPage}
+            totalPages={totalPages}
+            isConfigured={isConfigured}
+            onRequireSettings={() => setIsSettingsOpen(true)}
+          />
+        </TabsContent>
+
+        <TabsContent value="glossary" forceMount className="flex-1 flex flex-col min-h-0 mt-0 data-[state=inactive]:hidden">
+          <AIGlossaryPanel
+            documentId={documentId}
+            documentTexts={documentTexts}
+            isTextComplete={isTextComplete}
+            totalPages={totalPages}
+            glossary={glossary}
+            onGlossaryChange={onGlossaryChange}
+            isGlossaryShown={isGlossaryShown}
+            onGlossaryShownChange={onGlossaryShownChange}
+            isConfigured={isConfigured}
+            onRequireSettings={() => setIsSettingsOpen(true)}
+            onCitationClick={onCitationClick}
+          />
+        </TabsContent>
+
+        <TabsContent value="study" forceMount className="flex-1 flex flex-col min-h-0 mt-0 data-[state=inactive]:hidden">
+          <AIStudyPanel
+            documentId={documentId}
+            documentTexts={documentTexts}
+            currentPage={currentPage}
+            totalPages={totalPages}
+            isConfigured={isConfigured}
+            onRequireSettings={() => setIsSettingsOpen(true)}
+            onCitationClick={onCitationClick}
+          />
+        </TabsContent>
+
+        {comparison && (
+          <TabsContent value="changes" forceMount className="flex-1 flex flex-col min-h-0 mt-0 data-[state=inactive]:hidden">
+            <AICompareChangesPanel
+              documentTitle={documentTitle}
+              revisionTitle={comparison.revisionTitle}
+              comparison={comparison.pages}
+              progress={comparison.progress}
+              currentPage={currentPage}
+              isConfigured={isConfigured}
+              onRequireSettings={() => setIsSettingsOpen(true)}
+              onCitationClick={onCitationClick}
+            />
+          </TabsContent>
+        )}
       </Tabs>
-      
-      {response && (
-        <div className="p-4 border-t">
-          <p className="font-medium text-sm mb-2">Result:</p>
-          <ScrollArea className="h-64">
-            <div className="p-2 rounded bg-slate-50 whitespace-pre-wrap text-sm">
-              {response}
-            </div>
-          </ScrollArea>
-        </div>
-      )}
+
+      <AISettingsDialog open={isSettingsOpen} onOpenChange={setIsSettingsOpen} />
     </div>
   );
 };
@@ -0,0 +1,363 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Pencil, RotateCcw, Send, Square, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Textarea } from '@/components/ui/textarea';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useAISettings } from '@/hooks/use-ai-settings';
+import { useAIStream } from '@/hooks/use-ai-stream';
+import { useDocumentList } from '@/hooks/use-document-list';
+import { ChatMessage } from '@/lib/ai';
+import { estimateTokens, fitHistory, fitPrompt, getInputBudget } from '@/lib/ai/tokens';
+import { Citation } from '@/lib/citations';
+import { ChatScope, ChatThreadMessage, chatStore } from '@/lib/chat-store';
+import { buildDocumentChatPrompt, buildPageChatPrompt } from '@/lib/prompts';
+import { RetrievedChunk } from '@/lib/retrieval';
+import { cn, createId } from '@/lib/utils';
+import AIResponseText from './AIResponseText';
+import ContextBudgetIndicator from './ContextBudgetIndicator';
+
+interface AIChatPanelProps {
+  // Fingerprint of the open document; the thread is stored under it
+  documentId: string | null;
+  documentTitle: string;
+  retrieve: (query: string) => Promise<RetrievedChunk[]>;
+  indexedPageCount: number;
+  totalPages: number;
+  pageText: string;
+  documentTexts: Record<number, string>;
+  currentPage: number;
+  // A question about a text selection; sent right away unless send is false
+  request?: { question: string, pageNumber: number, send: boolean, id: number } | null;
+  onRequestHandled?: () => void;
+  isConfigured: boolean;
+  onRequireSettings: () => void;
+  onCitationClick: (citation: Citation) => void;
+}
+
+const AIChatPanel: React.FC<AIChatPanelProps> = ({
+  documentId,
+  documentTitle,
+  retrieve,
+  indexedPageCount,
+  totalPages,
+  pageText,
+  documentTexts,
+  currentPage,
+  request,
+  onRequestHandled,
+  isConfigured,
+  onRequireSettings,
+  onCitationClick,
+}) => {
+  const [draft, setDraft] = useState<string>('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState<string>('');
+  const [scope, setScope] = useState<ChatScope>('page');
+  const [isRetrieving, setIsRetrieving] = useState<boolean>(false);
+  const { items: messages, updateItems: updateMessages } = useDocumentList(chatStore, documentId);
+  const { provider } = useAISettings();
+  const { output, isStreaming, start, stop, reset } = useAIStream();
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const documentIdRef = useRef<string | null>(documentId);
+
+  // A stream belongs to the document it was started for
+  useEffect(() => {
+    documentIdRef.current = documentId;
+    reset();
+    setEditingId(null);
+  }, [documentId, reset]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages.length, output]);
+
+  // Builds a request around a system prompt whose content is shortened to fit
+  // the model. Earlier turns get at most a third of the budget, newest first.
+  const fitRequest = (
+    history: ChatThreadMessage[],
+    question: string,
+    buildSystemPrompt: (content: string) => string,
+    content: string
+  ) => {
+    const turns = fitHistory(
+      history.map(({ role, content }) => ({ role, content })),
+      getInputBudget(provider) / 3,
+      provider.kind
+    );
+    return fitPrompt(provider, text => [
+      { role: 'system', content: buildSystemPrompt(text) },
+      ...turns,
+      { role: 'user', content: question },
+    ], content);
+  };
+
+  // Sends a question after the given earlier turns, which replace the thread.
+  // Passing a page number asks about that page whatever the scope toggle says;
+  // replayed questions pass their own scope too.
+  const ask = async (
+    history: ChatThreadMessage[],
+    question: string,
+    pageNumber?: number,
+    questionScope: ChatScope = pageNumber ? 'page' : scope
+  ) => {
+    if (!isConfigured) {
+      onRequireSettings();
+      return;
+    }
+
+    const questionPage = pageNumber ?? currentPage;
+    const userMessage: ChatThreadMessage = {
+      id: createId(),
+      role: 'user',
+      content: question,
+      pageNumber: questionScope === 'page' ? questionPage : undefined,
+      scope: questionScope,
+      createdAt: Date.now(),
+    };
+    updateMessages(() => [...history, userMessage]);
+
+    let request: ChatMessage[];
+    if (questionScope === 'document') {
+      // Follow-ups like "and how long is it?" need the previous question to
+      // find the right passages
+      const previousQuestion = history.filter(message => message.role === 'user').pop()?.content ?? '';
+      setIsRetrieving(true);
+      const chunks = await retrieve(`${question} ${previousQuestion}`).finally(() => setIsRetrieving(false));
+      if (documentIdRef.current !== documentId) return;
+
+      // The best-ranked excerpts that fit in what the conversation leaves free
+      const { usage } = fitRequest(history, question, () => buildDocumentChatPrompt(documentTitle, []), '');
+      let free = usage.budget - usage.tokens;
+      const excerpts = chunks.filter((chunk) => {
+        const tokens = estimateTokens(chunk.text, provider.kind) + 10;
+        if (tokens > free) return false;
+        free -= tokens;
+        return true;
+      });
+      request = fitRequest(history, question, () => buildDocumentChatPrompt(documentTitle, excerpts), '').messages;
+    } else {
+      const text = questionPage === currentPage ? pageText : documentTexts[questionPage] ?? '';
+      request = fitRequest(history, question, content => buildPageChatPrompt(questionPage, content), text).messages;
+    }
+
+    const { text, stopped } = await start(request);
+    if (!text || documentIdRef.current !== documentId) return;
+
+    updateMessages(prev => [
+      ...prev,
+      { id: createId(), role: 'assistant', content: text, stopped, createdAt: Date.now() },
+    ]);
+  };
+
+  const handleRequest = (selectionRequest: NonNullable<AIChatPanelProps['request']>) => {
+    if (selectionRequest.send && !isStreaming && !isRetrieving) {
+      ask(messages, selectionRequest.question, selectionRequest.pageNumber);
+    } else {
+      setScope('page');
+      setDraft(selectionRequest.question);
+      textareaRef.current?.focus();
+    }
+    // Cleared so switching tabs and back does not ask again
+    onRequestHandled?.();
+  };
+
+  // The effect only runs for a new request, but should see the latest thread
+  const handleRequestRef = useRef(handleRequest);
+  handleRequestRef.current = handleRequest;
+  useEffect(() => {
+    if (request) handleRequestRef.current(request);
+  }, [request]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const question = draft.trim();
+    if (!question || isStreaming || isRetrieving) return;
+
+    setDraft('');
+    ask(messages, question);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      handleSubmit(e);
+    }
+  };
+
+  const startEditing = (message: ChatThreadMessage) => {
+    setEditingId(message.id);
+    setEditText(message.content);
+  };
+
+  // Editing a question drops it and every turn after it, then asks again
+  // about the same page or the whole document, as the original did
+  const handleResend = (index: number) => {
+    const question = editText.trim();
+    if (!question) return;
+
+    setEditingId(null);
+    ask(messages.slice(0, index), question, messages[index].pageNumber, messages[index].scope);
+  };
+
+  // What the draft would send on this page, shown before it is submitted
+  const pageUsage = scope === 'page' && pageText
+    ? fitRequest(messages, draft, content => buildPageChatPrompt(currentPage, content), pageText).usage
+    : null;
+
+  const lastUserIndex = messages.map(message => message.role).lastIndexOf('user');
+
+  const handleRegenerate = () => {
+    if (lastUserIndex === -1) return;
+    // Replays the question as it was asked, not on the page shown now
+    const { content, pageNumber, scope: questionScope } = messages[lastUserIndex];
+    ask(messages.slice(0, lastUserIndex), content, pageNumber, questionScope);
+  };
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0">
+      <ScrollArea className="flex-1 min-h-0 px-4">
+        <div className="flex flex-col gap-3 py-4">
+          {messages.length === 0 && !isStreaming && (
+            <p className="text-sm text-muted-foreground">
+              Ask about the current page or the whole document. Follow-up questions keep the earlier conversation in context.
+            </p>
+          )}
+
+          {messages.map((message, index) => (
+            <div
+              key={message.id}
+              className={cn(
+                'group rounded-lg p-2 text-sm',
+                message.role === 'user' ? 'ml-8 bg-pdf-primary/10' : 'mr-8 bg-slate-50'
+              )}
+            >
+              {editingId === message.id ? (
+                <div className="flex flex-col gap-2">
+                  <Textarea
+                    value={editText}
+                    onChange={(e) => setEditText(e.target.value)}
+                    className="resize-none bg-white"
+                    rows={3}
+                    autoFocus
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => setEditingId(null)}>
+                      Cancel
+                    </Button>
+                    <Button size="sm" onClick={() => handleResend(index)} disabled={!editText.trim() || isStreaming}>
+                      Save & resend
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  {message.role === 'assistant' ? (
+                    <AIResponseText text={message.content} onCitationClick={onCitationClick} />
+                  ) : (
+                    <div className="whitespace-pre-wrap">{message.content}</div>
+                  )}
+                  <div className="mt-1 flex items-center justify-between text-xs text-muted-foreground">
+                    <span>
+                      {message.role === 'user' && (message.scope === 'document' ? 'Whole document' : `Page ${message.pageNumber}`)}
+                      {message.stopped ? 'Stopped before the answer was complete.' : ''}
+                    </span>
+                    {message.role === 'user' && !isStreaming && (
+                      <button
+                        type="button"
+                        title="Edit and resend"
+                        className="opacity-0 group-hover:opacity-100"
+                        onClick={() => startEditing(message)}
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </button>
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+          ))}
+
+          {(isStreaming || isRetrieving) && (
+            <div className="mr-8 rounded-lg bg-slate-50 p-2 text-sm">
+              {output ? (
+                <AIResponseText text={output} onCitationClick={onCitationClick} />
+              ) : (
+                isRetrieving ? 'Finding relevant passages...' : 'Waiting for the model...'
+              )}
+            </div>
+          )}
+          <div ref={bottomRef} />
+        </div>
+      </ScrollArea>
+
+      <form onSubmit={handleSubmit} className="flex flex-col gap-2 border-t p-4">
+        <div className="flex items-center justify-between gap-2">
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={scope}
+            onValueChange={(value) => value && setScope(value as ChatScope)}
+          >
+            <ToggleGroupItem value="page">This page</ToggleGroupItem>
+            <ToggleGroupItem value="document">Whole document</ToggleGroupItem>
+          </ToggleGroup>
+          {scope === 'document' && indexedPageCount < totalPages && (
+            <span className="text-xs text-muted-foreground">
+              Indexed {indexedPageCount} of {totalPages} pages
+            </span>
+          )}
+        </div>
+        {pageUsage && <ContextBudgetIndicator usage={pageUsage} contentLabel="Page text" />}
+        <Textarea
+          ref={textareaRef}
+          placeholder={scope === 'page' ? 'Ask a question about this page...' : 'Ask a question about the document...'}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          className="resize-none"
+          rows={3}
+        />
+        <div className="flex items-center gap-2">
+          {isStreaming ? (
+            <Button type="button" variant="outline" onClick={stop}>
+              <Square className="h-4 w-4 mr-2" />
+              Stop
+            </Button>
+          ) : (
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              title="Regenerate the last answer"
+              onClick={handleRegenerate}
+              disabled={lastUserIndex === -1}
+            >
+              <RotateCcw className="h-4 w-4" />
+            </Button>
+          )}
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            title="Clear conversation"
+            onClick={() => updateMessages(() => [])}
+            disabled={isStreaming || messages.length === 0}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+          <Button
+            type="submit"
+            className="flex-1"
+            disabled={isStreaming || isRetrieving || !draft.trim() || (scope === 'page' && !pageText)}
+          >
+            <Send className="h-4 w-4 mr-2" />
+            Ask AI
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default AIChatPanel;
@@ -0,0 +1,129 @@
+import React, { useMemo, useState } from 'react';
+import { RotateCcw, Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useAISettings } from '@/hooks/use-ai-settings';
+import { ComparisonProgress } from '@/hooks/use-document-comparison';
+import { useAIStream } from '@/hooks/use-ai-stream';
+import { fitPrompt } from '@/lib/ai/tokens';
+import { Citation } from '@/lib/citations';
+import { PageComparison, buildChangeSummaryMessages, describeChanges } from '@/lib/compare';
+import AIResponseText from './AIResponseText';
+import ContextBudgetIndicator from './ContextBudgetIndicator';
+
+type ChangesScope = 'page' | 'document';
+
+interface AICompareChangesPanelProps {
+  documentTitle: string;
+  revisionTitle: string;
+  // Null until the text of both versions has been read
+  comparison: PageComparison[] | null;
+  // Set while the pages are being compared
+  progress: ComparisonProgress | null;
+  currentPage: number;
+  isConfigured: boolean;
+  onRequireSettings: () => void;
+  onCitationClick: (citation: Citation) => void;
+}
+
+const AICompareChangesPanel: React.FC<AICompareChangesPanelProps> = ({
+  documentTitle,
+  revisionTitle,
+  comparison,
+  progress,
+  currentPage,
+  isConfigured,
+  onRequireSettings,
+  onCitationClick,
+}) => {
+  const [scope, setScope] = useState<ChangesScope>('document');
+  const { provider } = useAISettings();
+  const { output, isStreaming, wasStopped, start, stop } = useAIStream();
+
+  const changeList = useMemo(
+    () => (comparison ? describeChanges(comparison, scope === 'page' ? currentPage : undefined) : ''),
+    [comparison, scope, currentPage]
+  );
+  const prompt = useMemo(
+    () => fitPrompt(provider, content => buildChangeSummaryMessages(content, documentTitle, revisionTitle), changeList),
+    [provider, documentTitle, revisionTitle, changeList]
+  );
+
+  const changeCount = comparison?.reduce((count, pair) => count + pair.changes.length, 0) ?? 0;
+  const addedPages = comparison?.filter(pair => pair.left === null).length ?? 0;
+  const removedPages = comparison?.filter(pair => pair.right === null).length ?? 0;
+
+  const handleSummarize = () => {
+    if (!isConfigured) {
+      onRequireSettings();
+      return;
+    }
+    start(prompt.messages);
+  };
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0 p-4 gap-4">
+      <p className="text-sm text-muted-foreground">
+        {!comparison
+          ? progress
+            ? `Comparing with “${revisionTitle}”${progress.total > 0 ? ` (page ${progress.completed + 1} of ${progress.total})` : ''}...`
+            : `Reading “${revisionTitle}”...`
+          : changeCount === 0
+            ? `No text changes between this document and “${revisionTitle}”.`
+            : `${changeCount} ${changeCount === 1 ? 'change' : 'changes'} in “${revisionTitle}”` +
+              (addedPages ? `, ${addedPages} ${addedPages === 1 ? 'page' : 'pages'} added` : '') +
+              (removedPages ? `, ${removedPages} ${removedPages === 1 ? 'page' : 'pages'} removed` : '') +
+              '.'}
+      </p>
+
+      <ToggleGroup
+        type="single"
+        size="sm"
+        value={scope}
+        onValueChange={(value) => value && setScope(value as ChangesScope)}
+        disabled={isStreaming}
+        className="justify-start"
+      >
+        <ToggleGroupItem value="page">This page</ToggleGroupItem>
+        <ToggleGroupItem value="document">Whole document</ToggleGroupItem>
+      </ToggleGroup>
+
+      {changeList && <ContextBudgetIndicator usage={prompt.usage} contentLabel="Changes" />}
+
+      {isStreaming ? (
+        <Button variant="outline" onClick={stop}>
+          <Square className="h-4 w-4 mr-2" />
+          Stop
+        </Button>
+      ) : (
+        <Button onClick={handleSummarize} disabled={!changeList}>
+          {output ? (
+            <>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Summarize again
+            </>
+          ) : (
+            'Summarize changes'
+          )}
+        </Button>
+      )}
+      {comparison && !changeList && changeCount > 0 && (
+        <p className="text-xs text-muted-foreground">Page {currentPage} has no changes.</p>
+      )}
+
+      <ScrollArea className="flex-1 min-h-0">
+        {(output || isStreaming) && (
+          <div className="p-2 rounded bg-slate-50 text-sm">
+            {output ? <AIResponseText text={output} onCitationClick={onCitationClick} /> : 'Waiting for the model...'}
+            {wasStopped && (
+              <span className="block mt-2 text-xs text-muted-foreground">Stopped before the summary was complete.</span>
+            )}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default AICompareChangesPanel;
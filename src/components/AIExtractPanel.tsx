@@ -0,0 +1,351 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FileJson, FileSpreadsheet, Play, Plus, Square, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useToast } from '@/components/ui/use-toast';
+import { useAISettings } from '@/hooks/use-ai-settings';
+import { downloadBlob } from '@/lib/download';
+import {
+  ExtractionField,
+  ExtractionMode,
+  ExtractionResult,
+  ExtractionSchema,
+  FIELD_TYPES,
+  FieldType,
+  createField,
+  extractData,
+  isValidFieldName,
+  loadExtractionSchema,
+  rowsToCsv,
+  rowsToJson,
+  saveExtractionSchema,
+} from '@/lib/extraction';
+import { formatPageRanges, parsePageRanges } from '@/lib/page-ranges';
+
+interface AIExtractPanelProps {
+  // Fingerprint of the open document; results are dropped when it changes
+  documentId: string | null;
+  documentTitle: string;
+  documentTexts: Record<number, string>;
+  currentPage: number;
+  totalPages: number;
+  isConfigured: boolean;
+  onRequireSettings: () => void;
+}
+
+const AIExtractPanel: React.FC<AIExtractPanelProps> = ({
+  documentId,
+  documentTitle,
+  documentTexts,
+  currentPage,
+  totalPages,
+  isConfigured,
+  onRequireSettings,
+}) => {
+  const [schema, setSchema] = useState<ExtractionSchema>(loadExtractionSchema);
+  const [pageInput, setPageInput] = useState<string>(String(currentPage));
+  const [result, setResult] = useState<ExtractionResult | null>(null);
+  // Fields the result was extracted with, so editing the schema keeps the table intact
+  const [resultFields, setResultFields] = useState<ExtractionField[]>([]);
+  const [progress, setProgress] = useState<{ completed: number, total: number } | null>(null);
+  const { provider } = useAISettings();
+  const controllerRef = useRef<AbortController | null>(null);
+  const { toast } = useToast();
+
+  // Results belong to the document they were extracted from, and a run for
+  // the previous one must not land under the next
+  useEffect(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setResult(null);
+    setResultFields([]);
+    setProgress(null);
+  }, [documentId]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const updateSchema = (changes: Partial<ExtractionSchema>) => {
+    setSchema((prev) => {
+      const next = { ...prev, ...changes };
+      try {
+        saveExtractionSchema(next);
+      } catch (error) {
+        console.error('Error saving extraction schema:', error);
+      }
+      return next;
+    });
+  };
+
+  const updateField = (id: string, changes: Partial<ExtractionField>) => {
+    updateSchema({ fields: schema.fields.map(field => field.id === id ? { ...field, ...changes } : field) });
+  };
+
+  const names = schema.fields.map(field => field.name);
+  const fieldProblem = schema.fields.length === 0
+    ? 'Add at least one field.'
+    : names.some(name => !isValidFieldName(name))
+      ? 'Field names must start with a letter and use only letters, digits and underscores.'
+      : new Set(names).size !== names.length
+        ? 'Field names must be unique.'
+        : '';
+
+  const handleRun = async () => {
+    if (!isConfigured) {
+      onRequireSettings();
+      return;
+    }
+
+    let pages: number[];
+    try {
+      pages = parsePageRanges(pageInput, totalPages);
+    } catch (error) {
+      toast({ title: 'Check the pages', description: (error as Error).message, variant: 'destructive' });
+      return;
+    }
+    const missing = pages.filter(page => documentTexts[page] === undefined);
+    if (missing.length > 0) {
+      toast({
+        title: 'Text not ready',
+        description: `The text of page ${missing[0]} has not been extracted yet. Try again in a moment.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setResult(null);
+    setResultFields(schema.fields);
+    setProgress({ completed: 0, total: 1 });
+
+    try {
+      const extracted = await extractData({
+        provider,
+        schema,
+        pageTexts: documentTexts,
+        pages,
+        signal: controller.signal,
+        onProgress: (completed, total) => {
+          if (!controller.signal.aborted) setProgress({ completed, total });
+        },
+      });
+      if (!controller.signal.aborted) setResult(extracted);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error('Error extracting data:', error);
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'The data could not be extracted.',
+          variant: 'destructive',
+        });
+      }
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  const baseName = documentTitle.replace(/\.pdf$/i, '') || 'extraction';
+
+  const handleExport = (format: 'json' | 'csv') => {
+    if (!result) return;
+    if (format === 'json') {
+      downloadBlob(new Blob([rowsToJson(resultFields, result.rows)], { type: 'application/json' }), `${baseName}-data.json`);
+    } else {
+      downloadBlob(new Blob([rowsToCsv(resultFields, result.rows)], { type: 'text/csv' }), `${baseName}-data.csv`);
+    }
+  };
+
+  const isRunning = progress !== null;
+
+  return (
+    <ScrollArea className="flex-1 min-h-0">
+      <div className="flex flex-col gap-4 p-4">
+        <div className="flex items-center justify-between gap-2">
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={schema.mode}
+            onValueChange={(value) => value && updateSchema({ mode: value as ExtractionMode })}
+            disabled={isRunning}
+          >
+            <ToggleGroupItem value="record" title="One set of fields for the pages, like an invoice header">One record</ToggleGroupItem>
+            <ToggleGroupItem value="rows" title="One row per item, like the lines of a table">Table rows</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+
+        <div className="flex flex-col gap-3">
+          {schema.fields.map(field => (
+            <div key={field.id} className="flex flex-col gap-1 rounded border p-2">
+              <div className="flex items-center gap-1">
+                <Input
+                  value={field.name}
+                  placeholder="field_name"
+                  onChange={(e) => updateField(field.id, { name: e.target.value })}
+                  className="h-8 flex-1 min-w-0 font-mono text-xs"
+                  disabled={isRunning}
+                />
+                <Select
+                  value={field.type}
+                  onValueChange={(value) => updateField(field.id, { type: value as FieldType })}
+                  disabled={isRunning}
+                >
+                  <SelectTrigger className="h-8 w-24">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FIELD_TYPES.map(({ value, label }) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  title="Remove field"
+                  onClick={() => updateSchema({ fields: schema.fields.filter(other => other.id !== field.id) })}
+                  disabled={isRunning}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <Input
+                value={field.description}
+                placeholder="What the field holds (helps the model find it)"
+                onChange={(e) => updateField(field.id, { description: e.target.value })}
+                className="h-8 text-xs"
+                disabled={isRunning}
+              />
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id={`required-${field.id}`}
+                  checked={field.required}
+                  onCheckedChange={(checked) => updateField(field.id, { required: checked === true })}
+                  disabled={isRunning}
+                />
+                <Label htmlFor={`required-${field.id}`} className="text-xs font-normal">Required</Label>
+              </div>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => updateSchema({ fields: [...schema.fields, createField()] })}
+            disabled={isRunning}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add field
+          </Button>
+          {fieldProblem && <p className="text-xs text-destructive">{fieldProblem}</p>}
+        </div>
+
+        <div className="grid gap-2">
+          <Label htmlFor="extract-pages">Pages</Label>
+          <div className="flex gap-1">
+            <Input
+              id="extract-pages"
+              value={pageInput}
+              placeholder="e.g. 1-3, 5"
+              onChange={(e) => setPageInput(e.target.value)}
+              className="h-8 flex-1"
+              disabled={isRunning}
+            />
+            <Button variant="outline" size="sm" onClick={() => setPageInput(String(currentPage))} disabled={isRunning}>
+              This page
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setPageInput(`1-${totalPages}`)} disabled={isRunning || totalPages === 0}>
+              All
+            </Button>
+          </div>
+        </div>
+
+        {isRunning ? (
+          <div className="flex flex-col gap-2">
+            <Progress value={(progress.completed / Math.max(progress.total, 1)) * 100} className="h-2" />
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-muted-foreground">
+                {progress.completed} of {progress.total} requests
+              </span>
+              <Button variant="outline" size="sm" onClick={() => controllerRef.current?.abort()}>
+                <Square className="h-3 w-3 mr-2" />
+                Stop
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button onClick={handleRun} disabled={!!fieldProblem || !pageInput.trim()}>
+            <Play className="h-4 w-4 mr-2" />
+            Extract
+          </Button>
+        )}
+
+        {result && (
+          <div className="flex flex-col gap-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">
+                {result.rows.length} {result.rows.length === 1 ? 'row' : 'rows'}
+              </span>
+              <div className="flex gap-1">
+                <Button variant="outline" size="sm" onClick={() => handleExport('json')} disabled={result.rows.length === 0}>
+                  <FileJson className="h-4 w-4 mr-1" />
+                  JSON
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => handleExport('csv')} disabled={result.rows.length === 0}>
+                  <FileSpreadsheet className="h-4 w-4 mr-1" />
+                  CSV
+                </Button>
+              </div>
+            </div>
+
+            {result.errors.map((error, index) => (
+              <p key={index} className="text-xs text-destructive">
+                {error.pages.length === 1 ? 'Page' : 'Pages'} {formatPageRanges(error.pages)}: the reply did not match the schema ({error.message}).
+              </p>
+            ))}
+
+            {result.rows.length > 0 && (
+              <div className="rounded border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="h-8 text-xs">Page</TableHead>
+                      {resultFields.map(field => (
+                        <TableHead key={field.id} className="h-8 text-xs font-mono">{field.name}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.rows.map((row, index) => (
+                      <TableRow key={index}>
+                        <TableCell className="py-1 text-xs text-muted-foreground">{formatPageRanges(row.pages)}</TableCell>
+                        {resultFields.map(field => (
+                          <TableCell key={field.id} className="py-1 text-xs">
+                            {row.values[field.name] === null || row.values[field.name] === undefined
+                              ? <span className="text-muted-foreground">—</span>
+                              : String(row.values[field.name])}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </ScrollArea>
+  );
+};
+
+export default AIExtractPanel;
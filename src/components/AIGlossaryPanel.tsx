@@ -0,0 +1,221 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Play, Square, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/components/ui/use-toast';
+import { useAISettings } from '@/hooks/use-ai-settings';
+import { Citation } from '@/lib/citations';
+import { buildGlossary, buildTermMatchers, getTermPages, sortGlossary } from '@/lib/glossary';
+import { GlossaryEntry } from '@/lib/glossary-store';
+import { formatPageRanges } from '@/lib/page-ranges';
+
+// Page links shown per term before the rest are summarized
+const MAX_PAGE_LINKS = 8;
+
+interface AIGlossaryPanelProps {
+  documentId: string | null;
+  documentTexts: Record<number, string>;
+  isTextComplete: boolean;
+  totalPages: number;
+  glossary: GlossaryEntry[];
+  onGlossaryChange: (updater: (entries: GlossaryEntry[]) => GlossaryEntry[]) => void;
+  // Whether terms are underlined in the page
+  isGlossaryShown: boolean;
+  onGlossaryShownChange: (shown: boolean) => void;
+  isConfigured: boolean;
+  onRequireSettings: () => void;
+  onCitationClick: (citation: Citation) => void;
+}
+
+const AIGlossaryPanel: React.FC<AIGlossaryPanelProps> = ({
+  documentId,
+  documentTexts,
+  isTextComplete,
+  totalPages,
+  glossary,
+  onGlossaryChange,
+  isGlossaryShown,
+  onGlossaryShownChange,
+  isConfigured,
+  onRequireSettings,
+  onCitationClick,
+}) => {
+  const [filter, setFilter] = useState<string>('');
+  const [progress, setProgress] = useState<{ completed: number, total: number } | null>(null);
+  const { provider } = useAISettings();
+  const controllerRef = useRef<AbortController | null>(null);
+  const { toast } = useToast();
+
+  // The glossary belongs to the document, so a run stops when another one opens
+  useEffect(() => () => controllerRef.current?.abort(), [documentId]);
+
+  const sorted = useMemo(() => sortGlossary(glossary), [glossary]);
+  const termPages = useMemo(() => getTermPages(documentTexts, buildTermMatchers(glossary)), [documentTexts, glossary]);
+
+  const query = filter.trim().toLowerCase();
+  const shown = query
+    ? sorted.filter(entry => [entry.term, entry.expansion ?? '', entry.definition].some(text => text.toLowerCase().includes(query)))
+    : sorted;
+
+  const handleBuild = async () => {
+    if (!isConfigured) {
+      onRequireSettings();
+      return;
+    }
+    if (!isTextComplete) {
+      toast({
+        title: 'Text not ready',
+        description: 'The text of the document is still being extracted. Try again in a moment.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setProgress({ completed: 0, total: 1 });
+
+    try {
+      const result = await buildGlossary({
+        provider,
+        pageTexts: documentTexts,
+        pages: Array.from({ length: totalPages }, (_, i) => i + 1),
+        existing: glossary,
+        signal: controller.signal,
+        onProgress: (completed, total) => {
+          if (!controller.signal.aborted) setProgress({ completed, total });
+        },
+      });
+      if (controller.signal.aborted) return;
+
+      onGlossaryChange(prev => [...prev, ...result.entries]);
+      const skipped = result.failedPages.length > 0
+        ? `The replies for ${result.failedPages.length === 1 ? 'page' : 'pages'} ${formatPageRanges(result.failedPages)} could not be read.`
+        : undefined;
+      toast({
+        title: result.entries.length > 0
+          ? `Added ${result.entries.length} ${result.entries.length === 1 ? 'term' : 'terms'}`
+          : 'No new terms found',
+        description: skipped,
+        variant: skipped && result.entries.length === 0 ? 'destructive' : 'default',
+      });
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error('Error building glossary:', error);
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'The glossary could not be built.',
+          variant: 'destructive',
+        });
+      }
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  const isRunning = progress !== null;
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0">
+      <div className="flex flex-col gap-3 p-4 border-b">
+        {isRunning ? (
+          <div className="flex flex-col gap-2">
+            <Progress value={(progress.completed / Math.max(progress.total, 1)) * 100} className="h-2" />
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-muted-foreground">
+                {progress.completed} of {progress.total} requests
+              </span>
+              <Button variant="outline" size="sm" onClick={() => controllerRef.current?.abort()}>
+                <Square className="h-3 w-3 mr-2" />
+                Stop
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button onClick={handleBuild} disabled={!documentId || totalPages === 0}>
+            <Play className="h-4 w-4 mr-2" />
+            {glossary.length > 0 ? 'Look for more terms' : 'Build glossary'}
+          </Button>
+        )}
+
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor="glossary-underline" className="text-sm font-normal">Underline terms on the page</Label>
+          <Switch id="glossary-underline" checked={isGlossaryShown} onCheckedChange={onGlossaryShownChange} />
+        </div>
+
+        {glossary.length > 0 && (
+          <Input
+            value={filter}
+            placeholder={`Filter ${glossary.length} ${glossary.length === 1 ? 'term' : 'terms'}`}
+            onChange={(e) => setFilter(e.target.value)}
+            className="h-8"
+          />
+        )}
+      </div>
+
+      <ScrollArea className="flex-1 min-h-0">
+        <div className="flex flex-col gap-3 p-4">
+          {glossary.length === 0 && !isRunning && (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              Build a glossary to collect the document's terms and acronyms with their definitions.
+            </p>
+          )}
+          {glossary.length > 0 && shown.length === 0 && (
+            <p className="text-sm text-muted-foreground">No terms match “{filter.trim()}”.</p>
+          )}
+
+          {shown.map((entry) => {
+            const pages = termPages[entry.id] ?? [];
+            return (
+              <div key={entry.id} className="group flex items-start gap-2">
+                <div className="flex-1 min-w-0 text-sm">
+                  <p>
+                    <span className="font-medium">{entry.term}</span>
+                    {entry.expansion && <span className="text-muted-foreground"> · {entry.expansion}</span>}
+                  </p>
+                  <p className="text-muted-foreground">{entry.definition}</p>
+                  {pages.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-x-2 text-xs">
+                      {pages.slice(0, MAX_PAGE_LINKS).map(pageNumber => (
+                        <Button
+                          key={pageNumber}
+                          variant="link"
+                          size="sm"
+                          className="h-auto p-0 text-xs"
+                          onClick={() => onCitationClick({ pageNumber, quote: entry.term })}
+                        >
+                          p. {pageNumber}
+                        </Button>
+                      ))}
+                      {pages.length > MAX_PAGE_LINKS && (
+                        <span className="text-muted-foreground">and {pages.length - MAX_PAGE_LINKS} more</span>
+                      )}
+                    </div>
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0 opacity-0 group-hover:opacity-100"
+                  title="Remove term"
+                  onClick={() => onGlossaryChange(prev => prev.filter(other => other.id !== entry.id))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default AIGlossaryPanel;
@@ -0,0 +1,128 @@
+import React, { useMemo, useRef, useState } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import rehypeKatex from 'rehype-katex';
+import rehypeSanitize from 'rehype-sanitize';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import { Check, Copy } from 'lucide-react';
+import 'katex/dist/katex.min.css';
+import { Citation } from '@/lib/citations';
+import { citationsToLinks, markdownSanitizeSchema, parseCitationHref } from '@/lib/markdown';
+import { cn } from '@/lib/utils';
+
+interface AIResponseTextProps {
+  text: string;
+  onCitationClick: (citation: Citation) => void;
+}
+
+interface CopyableBlockProps {
+  // Reads the text to copy from the rendered block
+  getText: (element: HTMLElement) => string;
+  className?: string;
+  children: React.ReactNode;
+}
+
+// A block with a copy button in its top-right corner
+const CopyableBlock: React.FC<CopyableBlockProps> = ({ getText, className, children }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [isCopied, setIsCopied] = useState<boolean>(false);
+
+  const handleCopy = async () => {
+    if (!ref.current) return;
+    try {
+      await navigator.clipboard.writeText(getText(ref.current));
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 1500);
+    } catch (error) {
+      console.error('Error copying to clipboard:', error);
+    }
+  };
+
+  return (
+    <div className={cn('group relative', className)}>
+      <button
+        type="button"
+        title="Copy"
+        onClick={handleCopy}
+        className="absolute right-1 top-1 z-10 rounded bg-white/80 p-1 text-muted-foreground opacity-0 shadow-sm hover:text-foreground group-hover:opacity-100"
+      >
+        {isCopied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+      </button>
+      <div ref={ref}>{children}</div>
+    </div>
+  );
+};
+
+const getCodeText = (element: HTMLElement) => element.querySelector('code')?.textContent ?? element.textContent ?? '';
+
+// Tables are copied as tab-separated rows, which paste cleanly into spreadsheets
+const getTableText = (element: HTMLElement) =>
+  Array.from(element.querySelectorAll('tr'))
+    .map(row => Array.from(row.querySelectorAll('th, td')).map(cell => cell.textContent?.trim() ?? '').join('\t'))
+    .join('\n');
+
+// KaTeX keeps the LaTeX source in a MathML annotation
+const getMathText = (element: HTMLElement) =>
+  element.querySelector('annotation[encoding="application/x-tex"]')?.textContent ?? element.textContent ?? '';
+
+// Model output rendered as sanitized Markdown (GFM tables and lists, code,
+// KaTeX math), with page citations turned into clickable chips
+const AIResponseText: React.FC<AIResponseTextProps> = ({ text, onCitationClick }) => {
+  const markdown = useMemo(() => citationsToLinks(text), [text]);
+
+  const components = useMemo((): Components => ({
+    a: ({ href, children }) => {
+      const citation = parseCitationHref(href);
+      if (citation) {
+        return (
+          <button
+            type="button"
+            title={citation.quote ? `“${citation.quote}”` : `Go to page ${citation.pageNumber}`}
+            onClick={() => onCitationClick(citation)}
+            className="mx-0.5 inline-flex items-center rounded-full border border-pdf-primary/40 bg-pdf-primary/10 px-1.5 align-baseline text-xs font-medium text-pdf-primary no-underline hover:bg-pdf-primary/20"
+          >
+            {children}
+          </button>
+        );
+      }
+      return (
+        <a href={href} target="_blank" rel="noopener noreferrer">
+          {children}
+        </a>
+      );
+    },
+    pre: ({ node, ...props }) => (
+      <CopyableBlock getText={getCodeText}>
+        <pre {...props} />
+      </CopyableBlock>
+    ),
+    table: ({ node, ...props }) => (
+      <CopyableBlock getText={getTableText} className="overflow-x-auto">
+        <table {...props} />
+      </CopyableBlock>
+    ),
+    // KaTeX relies on the inline styles of its spans, so everything is passed through
+    span: ({ node, ...props }) =>
+      props.className?.split(' ').includes('katex-display') ? (
+        <CopyableBlock getText={getMathText}>
+          <span {...props} />
+        </CopyableBlock>
+      ) : (
+        <span {...props} />
+      ),
+  }), [onCitationClick]);
+
+  return (
+    <div className="markdown-content">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[[rehypeSanitize, markdownSanitizeSchema], rehypeKatex]}
+        components={components}
+      >
+        {markdown}
+      </ReactMarkdown>
+    </div>
+  );
+};
+
+export default AIResponseText;
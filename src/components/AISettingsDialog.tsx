@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { useAISettings } from '@/hooks/use-ai-settings';
+import {
+  ModelInfo,
+  PROVIDER_OPTIONS,
+  ProviderKind,
+  ProviderSettings,
+  createProvider,
+  getProviderOption,
+  isProviderConfigured,
+} from '@/lib/ai';
+
+interface AISettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const AISettingsDialog: React.FC<AISettingsDialogProps> = ({ open, onOpenChange }) => {
+  const { settings, updateSettings } = useAISettings();
+  const [draft, setDraft] = useState<ProviderSettings>(settings);
+  const [models, setModels] = useState<ModelInfo[]>([]);
+  const [isLoadingModels, setIsLoadingModels] = useState<boolean>(false);
+  const [isTesting, setIsTesting] = useState<boolean>(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) {
+      setDraft(settings);
+      setModels([]);
+    }
+  }, [open, settings]);
+
+  const option = getProviderOption(draft.kind);
+
+  const update = (changes: Partial<ProviderSettings>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleKindChange = (kind: ProviderKind) => {
+    // Keep a custom base URL, but swap the default one for the new provider's
+    const isDefaultUrl = !draft.baseUrl || draft.baseUrl === option.defaultBaseUrl;
+    update({
+      kind,
+      baseUrl: isDefaultUrl ? getProviderOption(kind).defaultBaseUrl : draft.baseUrl,
+      model: '',
+    });
+    setModels([]);
+  };
+
+  const handleLoadModels = async () => {
+    setIsLoadingModels(true);
+    try {
+      const loaded = await createProvider(draft).listModels();
+      setModels(loaded);
+      if (!draft.model && loaded.length > 0) {
+        update({ model: loaded[0].id });
+      }
+    } catch (error) {
+      console.error('Error listing models:', error);
+      toast({
+        title: 'Could not load models',
+        description: error instanceof Error ? error.message : 'The server did not return a model list.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoadingModels(false);
+    }
+  };
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    try {
+      await createProvider(draft).complete({
+        messages: [{ role: 'user', content: 'Reply with the single word OK.' }],
+        maxTokens: 16,
+      });
+      toast({
+        title: 'Connection works',
+        description: `${option.label} responded using ${draft.model}.`,
+      });
+    } catch (error) {
+      console.error('Error testing AI provider:', error);
+      toast({
+        title: 'Connection failed',
+        description: error instanceof Error ? error.message : 'The request did not succeed.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleSave = () => {
+    updateSettings(draft);
+    onOpenChange(false);
+  };
+
+  const selectedModel = models.find(model => model.id === draft.model);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>AI settings</DialogTitle>
+          <DialogDescription>
+            Choose the model server the assistant sends requests to. Settings are stored in this browser only.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label>Provider</Label>
+            <Select value={draft.kind} onValueChange={(value) => handleKindChange(value as ProviderKind)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PROVIDER_OPTIONS.map(({ kind, label }) => (
+                  <SelectItem key={kind} value={kind}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="ai-base-url">Server URL</Label>
+            <Input
+              id="ai-base-url"
+              value={draft.baseUrl}
+              placeholder={option.defaultBaseUrl}
+              onChange={(e) => update({ baseUrl: e.target.value.trim() })}
+            />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="ai-api-key">API key{option.requiresApiKey ? '' : ' (optional)'}</Label>
+            <Input
+              id="ai-api-key"
+              type="password"
+              autoComplete="off"
+              value={draft.apiKey}
+              onChange={(e) => update({ apiKey: e.target.value.trim() })}
+            />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="ai-model">Model</Label>
+            <div className="flex gap-2">
+              <Input
+                id="ai-model"
+                list="ai-model-options"
+                value={draft.model}
+                placeholder="Model name"
+                onChange={(e) => update({ model: e.target.value.trim() })}
+              />
+              <datalist id="ai-model-options">
+                {models.map(model => (
+                  <option key={model.id} value={model.id} />
+                ))}
+              </datalist>
+              <Button
+                variant="outline"
+                size="icon"
+                title="Load models from the server"
+                onClick={handleLoadModels}
+                disabled={!draft.baseUrl || isLoadingModels}
+              >
+                {isLoadingModels ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+              </Button>
+            </div>
+            {models.length > 0 && (
+              <p className="text-xs text-muted-foreground">{models.length} models available</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="ai-max-output">Max response tokens</Label>
+              <Input
+                id="ai-max-output"
+                type="number"
+                min={16}
+                value={draft.maxOutputTokens}
+                onChange={(e) => update({ maxOutputTokens: Math.max(16, parseInt(e.target.value) || 16) })}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="ai-context-window">Context window</Label>
+              <Input
+                id="ai-context-window"
+                type="number"
+                min={0}
+                value={draft.contextWindow || ''}
+                placeholder={`Auto (${createProvider(draft).getTokenLimits().contextWindow})`}
+                onChange={(e) => update({ contextWindow: Math.max(0, parseInt(e.target.value) || 0) })}
+              />
+            </div>
+          </div>
+          {selectedModel?.contextWindow && !draft.contextWindow && (
+            <p className="text-xs text-muted-foreground -mt-2">
+              The server reports a {selectedModel.contextWindow}-token context for this model.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={handleTest} disabled={!isProviderConfigured(draft) || isTesting}>
+            {isTesting ? 'Testing...' : 'Test connection'}
+          </Button>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AISettingsDialog;
@@ -0,0 +1,401 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, Eye, Play, Square, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useToast } from '@/components/ui/use-toast';
+import { useAISettings } from '@/hooks/use-ai-settings';
+import { useDocumentList } from '@/hooks/use-document-list';
+import { Citation } from '@/lib/citations';
+import { formatPageRanges, parsePageRanges } from '@/lib/page-ranges';
+import { ReviewGrade, formatDelay, isDue, scheduleReview } from '@/lib/spaced-repetition';
+import { generateStudyCards } from '@/lib/study';
+import { StudyCard, StudyCardKind, studyStore } from '@/lib/study-store';
+import { cn } from '@/lib/utils';
+
+type StudyView = 'review' | 'generate' | 'cards';
+
+const GRADES: Array<{ grade: ReviewGrade, label: string }> = [
+  { grade: 'again', label: 'Again' },
+  { grade: 'hard', label: 'Hard' },
+  { grade: 'good', label: 'Good' },
+  { grade: 'easy', label: 'Easy' },
+];
+
+const CARDS_PER_PAGE = ['2', '3', '5', '8'];
+
+// Questions are compared loosely so regenerating a page does not duplicate cards
+const normalizeQuestion = (question: string) => question.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+interface AIStudyPanelProps {
+  // Fingerprint of the open document, used to keep one deck per document
+  documentId: string | null;
+  documentTexts: Record<number, string>;
+  currentPage: number;
+  totalPages: number;
+  isConfigured: boolean;
+  onRequireSettings: () => void;
+  onCitationClick: (citation: Citation) => void;
+}
+
+const AIStudyPanel: React.FC<AIStudyPanelProps> = ({
+  documentId,
+  documentTexts,
+  currentPage,
+  totalPages,
+  isConfigured,
+  onRequireSettings,
+  onCitationClick,
+}) => {
+  const { items: cards, updateItems: updateCards } = useDocumentList(studyStore, documentId);
+  const [view, setView] = useState<StudyView>('review');
+  const [kind, setKind] = useState<StudyCardKind>('flashcard');
+  const [pageInput, setPageInput] = useState<string>(String(currentPage));
+  const [cardsPerPage, setCardsPerPage] = useState<string>('3');
+  const [progress, setProgress] = useState<{ completed: number, total: number } | null>(null);
+  // Review state of the card on screen
+  const [isRevealed, setIsRevealed] = useState<boolean>(false);
+  const [chosenOption, setChosenOption] = useState<number | null>(null);
+  const [now, setNow] = useState<number>(Date.now);
+  const { provider } = useAISettings();
+  const controllerRef = useRef<AbortController | null>(null);
+  const { toast } = useToast();
+
+  // The deck belongs to the document, so a run stops when another one opens
+  useEffect(() => () => controllerRef.current?.abort(), [documentId]);
+
+  // Cards relearned in a few minutes become due while the tab is open
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const dueCards = cards.filter(card => isDue(card.review, now)).sort((a, b) => a.review.due - b.review.due);
+  const card = dueCards[0] ?? null;
+  const nextDue = cards.length > 0 ? Math.min(...cards.map(other => other.review.due)) : null;
+
+  useEffect(() => {
+    setIsRevealed(false);
+    setChosenOption(null);
+  }, [card?.id]);
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!card) return;
+    const reviewedAt = Date.now();
+    updateCards(prev => prev.map(other =>
+      other.id === card.id ? { ...other, review: scheduleReview(other.review, grade, reviewedAt) } : other
+    ));
+    setNow(reviewedAt);
+  };
+
+  const handleGenerate = async () => {
+    if (!isConfigured) {
+      onRequireSettings();
+      return;
+    }
+
+    let pages: number[];
+    try {
+      pages = parsePageRanges(pageInput, totalPages);
+    } catch (error) {
+      toast({ title: 'Check the pages', description: (error as Error).message, variant: 'destructive' });
+      return;
+    }
+    const missing = pages.filter(page => documentTexts[page] === undefined);
+    if (missing.length > 0) {
+      toast({
+        title: 'Text not ready',
+        description: `The text of page ${missing[0]} has not been extracted yet. Try again in a moment.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setProgress({ completed: 0, total: 1 });
+
+    try {
+      const result = await generateStudyCards({
+        provider,
+        kind,
+        pageTexts: documentTexts,
+        pages,
+        cardsPerPage: Number(cardsPerPage),
+        signal: controller.signal,
+        onProgress: (completed, total) => {
+          if (!controller.signal.aborted) setProgress({ completed, total });
+        },
+      });
+      if (controller.signal.aborted) return;
+
+      const known = new Set(cards.map(other => normalizeQuestion(other.question)));
+      const added = result.cards.filter((generated) => {
+        const key = normalizeQuestion(generated.question);
+        if (known.has(key)) return false;
+        known.add(key);
+        return true;
+      });
+      updateCards(prev => [...prev, ...added]);
+
+      const skipped = result.failedPages.length > 0
+        ? `The model gave no usable cards for ${result.failedPages.length === 1 ? 'page' : 'pages'} ${formatPageRanges(result.failedPages)}.`
+        : undefined;
+      if (added.length > 0) {
+        toast({ title: `Added ${added.length} ${added.length === 1 ? 'card' : 'cards'}`, description: skipped });
+        setNow(Date.now());
+        setView('review');
+      } else if (skipped) {
+        toast({ title: 'No cards were made', description: skipped, variant: 'destructive' });
+      } else {
+        toast({ title: 'No new cards', description: 'Every card the model wrote is already in the deck.' });
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error('Error generating study cards:', error);
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'The cards could not be generated.',
+          variant: 'destructive',
+        });
+      }
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  const handleDelete = (id: string) => {
+    updateCards(prev => prev.filter(other => other.id !== id));
+  };
+
+  const isRunning = progress !== null;
+
+  const pageLink = (studyCard: StudyCard) => (
+    <Button
+      variant="link"
+      size="sm"
+      className="h-auto p-0 text-xs"
+      title={studyCard.quote ? `Show “${studyCard.quote}” on the page` : 'Show the page'}
+      onClick={() => onCitationClick({ pageNumber: studyCard.pageNumber, quote: studyCard.quote })}
+    >
+      p. {studyCard.pageNumber}
+    </Button>
+  );
+
+  const renderReview = () => {
+    if (!card) {
+      return (
+        <div className="flex flex-col items-center gap-3 py-8 text-center text-sm text-muted-foreground">
+          {cards.length === 0 ? (
+            <p>No cards yet. Generate flashcards or quiz questions from the pages you want to learn.</p>
+          ) : (
+            <p>All caught up. The next card is due in {formatDelay((nextDue ?? now) - now)}.</p>
+          )}
+          {cards.length === 0 && (
+            <Button variant="outline" size="sm" onClick={() => setView('generate')}>Generate cards</Button>
+          )}
+        </div>
+      );
+    }
+
+    const isQuiz = card.kind === 'quiz';
+    const isAnswered = isQuiz ? chosenOption !== null : isRevealed;
+    const isCorrect = chosenOption === card.correctIndex;
+    // A wrong quiz answer is always "again"; a right one is graded by the reader
+    const grades = isQuiz && !isCorrect ? GRADES.slice(0, 1) : isQuiz ? GRADES.slice(1) : GRADES;
+
+    return (
+      <div className="flex flex-col gap-3">
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>{dueCards.length} due · {cards.length} in deck</span>
+          {pageLink(card)}
+        </div>
+
+        <div className="rounded border bg-slate-50 p-3 text-sm font-medium">{card.question}</div>
+
+        {isQuiz && card.options?.map((option, index) => (
+          <Button
+            key={index}
+            variant="outline"
+            className={cn(
+              'h-auto justify-start whitespace-normal py-2 text-left text-sm font-normal',
+              isAnswered && index === card.correctIndex && 'border-green-600 bg-green-50',
+              isAnswered && index === chosenOption && !isCorrect && 'border-destructive bg-red-50'
+            )}
+            onClick={() => !isAnswered && setChosenOption(index)}
+          >
+            {isAnswered && index === card.correctIndex && <Check className="h-4 w-4 mr-2 shrink-0 text-green-600" />}
+            {isAnswered && index === chosenOption && !isCorrect && <X className="h-4 w-4 mr-2 shrink-0 text-destructive" />}
+            {option}
+          </Button>
+        ))}
+
+        {!isQuiz && !isRevealed && (
+          <Button variant="outline" onClick={() => setIsRevealed(true)}>
+            <Eye className="h-4 w-4 mr-2" />
+            Show answer
+          </Button>
+        )}
+
+        {isAnswered && card.answer && (
+          <div className="rounded border p-3 text-sm">{card.answer}</div>
+        )}
+
+        {isAnswered && (
+          <div className="flex gap-1">
+            {grades.map(({ grade, label }) => (
+              <Button
+                key={grade}
+                variant={grade === 'good' ? 'default' : 'outline'}
+                size="sm"
+                className="flex-1 h-auto flex-col py-1"
+                onClick={() => handleGrade(grade)}
+              >
+                <span>{isQuiz && !isCorrect ? 'Next' : label}</span>
+                <span className="text-[10px] font-normal opacity-70">
+                  {formatDelay(scheduleReview(card.review, grade, now).due - now)}
+                </span>
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderGenerate = () => (
+    <div className="flex flex-col gap-4">
+      <ToggleGroup
+        type="single"
+        size="sm"
+        value={kind}
+        onValueChange={(value) => value && setKind(value as StudyCardKind)}
+        disabled={isRunning}
+        className="justify-start"
+      >
+        <ToggleGroupItem value="flashcard">Flashcards</ToggleGroupItem>
+        <ToggleGroupItem value="quiz">Quiz</ToggleGroupItem>
+      </ToggleGroup>
+
+      <div className="grid gap-2">
+        <Label htmlFor="study-pages">Pages</Label>
+        <div className="flex gap-1">
+          <Input
+            id="study-pages"
+            value={pageInput}
+            placeholder="e.g. 1-3, 5"
+            onChange={(e) => setPageInput(e.target.value)}
+            className="h-8 flex-1"
+            disabled={isRunning}
+          />
+          <Button variant="outline" size="sm" onClick={() => setPageInput(String(currentPage))} disabled={isRunning}>
+            This page
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setPageInput(`1-${totalPages}`)} disabled={isRunning || totalPages === 0}>
+            All
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor="study-count">Cards per page</Label>
+        <Select value={cardsPerPage} onValueChange={setCardsPerPage} disabled={isRunning}>
+          <SelectTrigger id="study-count" className="h-8 w-20">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CARDS_PER_PAGE.map(count => (
+              <SelectItem key={count} value={count}>{count}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isRunning ? (
+        <div className="flex flex-col gap-2">
+          <Progress value={(progress.completed / Math.max(progress.total, 1)) * 100} className="h-2" />
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-muted-foreground">
+              {progress.completed} of {progress.total} requests
+            </span>
+            <Button variant="outline" size="sm" onClick={() => controllerRef.current?.abort()}>
+              <Square className="h-3 w-3 mr-2" />
+              Stop
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button onClick={handleGenerate} disabled={!pageInput.trim() || !documentId}>
+          <Play className="h-4 w-4 mr-2" />
+          Generate
+        </Button>
+      )}
+    </div>
+  );
+
+  const renderCards = () => (
+    <div className="flex flex-col gap-2">
+      {cards.length === 0 && (
+        <p className="py-8 text-center text-sm text-muted-foreground">The deck is empty.</p>
+      )}
+      {[...cards].sort((a, b) => a.pageNumber - b.pageNumber).map(studyCard => (
+        <div key={studyCard.id} className="flex items-start gap-2 rounded border p-2">
+          <div className="flex-1 min-w-0">
+            <p className="text-sm">{studyCard.question}</p>
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <span>{studyCard.kind === 'quiz' ? 'Quiz' : 'Flashcard'}</span>
+              {pageLink(studyCard)}
+              <span>
+                {isDue(studyCard.review, now) ? 'Due now' : `Due in ${formatDelay(studyCard.review.due - now)}`}
+              </span>
+            </div>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 shrink-0"
+            title="Delete card"
+            onClick={() => handleDelete(studyCard.id)}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0">
+      <div className="px-4 pt-4">
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={view}
+          onValueChange={(value) => value && setView(value as StudyView)}
+          className="justify-start"
+        >
+          <ToggleGroupItem value="review">Review{dueCards.length > 0 ? ` (${dueCards.length})` : ''}</ToggleGroupItem>
+          <ToggleGroupItem value="generate">Generate</ToggleGroupItem>
+          <ToggleGroupItem value="cards">Cards</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      <ScrollArea className="flex-1 min-h-0">
+        <div className="p-4">
+          {view === 'review' && renderReview()}
+          {view === 'generate' && renderGenerate()}
+          {view === 'cards' && renderCards()}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default AIStudyPanel;
@@ -0,0 +1,258 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { PDFDocumentProxy } from 'pdfjs-dist';
+import { RotateCcw, Square } from 'lucide-react';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useToast } from '@/components/ui/use-toast';
+import { useAISettings } from '@/hooks/use-ai-settings';
+import { useAIStream } from '@/hooks/use-ai-stream';
+import { fitPrompt } from '@/lib/ai/tokens';
+import { Citation } from '@/lib/citations';
+import { loadOutlineSections } from '@/lib/pdf-outline';
+import { ASSISTANT_SYSTEM_PROMPT } from '@/lib/prompts';
+import {
+  DocumentSummary,
+  SUMMARY_LENGTHS,
+  SummaryLength,
+  SummaryProgress,
+  buildPageSummaryPrompt,
+  buildSummarySections,
+  summarizeDocument,
+} from '@/lib/summarize';
+import AIResponseText from './AIResponseText';
+import ContextBudgetIndicator from './ContextBudgetIndicator';
+
+type SummaryScope = 'page' | 'document';
+
+interface AISummaryPanelProps {
+  pdfDocument: PDFDocumentProxy | null;
+  documentTitle: string;
+  documentTexts: Record<number, string>;
+  isTextComplete: boolean;
+  pageText: string;
+  currentPage: number;
+  totalPages: number;
+  isConfigured: boolean;
+  onRequireSettings: () => void;
+  onCitationClick: (citation: Citation) => void;
+}
+
+const AISummaryPanel: React.FC<AISummaryPanelProps> = ({
+  pdfDocument,
+  documentTitle,
+  documentTexts,
+  isTextComplete,
+  pageText,
+  currentPage,
+  totalPages,
+  isConfigured,
+  onRequireSettings,
+  onCitationClick,
+}) => {
+  const [scope, setScope] = useState<SummaryScope>('page');
+  const [length, setLength] = useState<SummaryLength>('one-pager');
+  const [documentSummary, setDocumentSummary] = useState<DocumentSummary | null>(null);
+  const [progress, setProgress] = useState<SummaryProgress | null>(null);
+  const { provider } = useAISettings();
+  const { output, isStreaming, wasStopped, start, stop, reset } = useAIStream();
+  const controllerRef = useRef<AbortController | null>(null);
+  const { toast } = useToast();
+
+  const isSummarizingDocument = progress !== null;
+
+  // Summaries belong to the document they were made for
+  useEffect(() => {
+    controllerRef.current?.abort();
+    reset();
+    setDocumentSummary(null);
+  }, [pdfDocument, reset]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const pagePrompt = useMemo(() => fitPrompt(provider, content => [
+    { role: 'system', content: ASSISTANT_SYSTEM_PROMPT },
+    { role: 'user', content: buildPageSummaryPrompt(currentPage, content, length) },
+  ], pageText), [provider, currentPage, pageText, length]);
+
+  const summarizePage = () => {
+    start(pagePrompt.messages);
+  };
+
+  const summarizeWholeDocument = async () => {
+    if (!pdfDocument) return;
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setDocumentSummary(null);
+    setProgress({ completed: 0, total: 1, stage: 'Reading the outline' });
+
+    try {
+      const outlineSections = await loadOutlineSections(pdfDocument).catch(() => []);
+      const result = await summarizeDocument({
+        provider,
+        pageTexts: documentTexts,
+        sections: buildSummarySections(outlineSections, totalPages),
+        length,
+        documentTitle,
+        signal: controller.signal,
+        onProgress: (update) => {
+          if (!controller.signal.aborted) setProgress(update);
+        },
+      });
+      if (!controller.signal.aborted) setDocumentSummary(result);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error('Error summarizing document:', error);
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'The document could not be summarized.',
+          variant: 'destructive',
+        });
+      }
+    } finally {
+      // Page requests still in flight after a failure are cancelled too
+      controller.abort();
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  const handleGenerate = () => {
+    if (!isConfigured) {
+      onRequireSettings();
+      return;
+    }
+    if (scope === 'page') {
+      summarizePage();
+    } else {
+      summarizeWholeDocument();
+    }
+  };
+
+  const handleStop = () => {
+    if (scope === 'page') {
+      stop();
+    } else {
+      controllerRef.current?.abort();
+    }
+  };
+
+  const isBusy = isStreaming || isSummarizingDocument;
+  const canGenerate = scope === 'page' ? !!pageText : !!pdfDocument && isTextComplete;
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0 p-4 gap-4">
+      <div className="flex items-center justify-between gap-2">
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={scope}
+          onValueChange={(value) => value && setScope(value as SummaryScope)}
+          disabled={isBusy}
+        >
+          <ToggleGroupItem value="page">This page</ToggleGroupItem>
+          <ToggleGroupItem value="document">Whole document</ToggleGroupItem>
+        </ToggleGroup>
+        <Select value={length} onValueChange={(value) => setLength(value as SummaryLength)} disabled={isBusy}>
+          <SelectTrigger className="w-32 h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SUMMARY_LENGTHS.map(({ value, label }) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        {scope === 'page'
+          ? `Summarize page ${currentPage}.`
+          : isTextComplete
+            ? 'Summarizes every page, then each section of the outline, then the whole document.'
+            : 'Waiting for the text of every page to be extracted...'}
+      </p>
+
+      {scope === 'page' && pageText && <ContextBudgetIndicator usage={pagePrompt.usage} contentLabel="Page text" />}
+
+      {isSummarizingDocument && (
+        <div className="flex flex-col gap-2">
+          <Progress value={(progress.completed / Math.max(progress.total, 1)) * 100} className="h-2" />
+          <p className="text-xs text-muted-foreground">
+            {progress.stage} ({progress.completed} of {progress.total} steps)
+          </p>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        {isBusy ? (
+          <Button variant="outline" className="flex-1" onClick={handleStop}>
+            <Square className="h-4 w-4 mr-2" />
+            Stop
+          </Button>
+        ) : (
+          <Button className="flex-1" onClick={handleGenerate} disabled={!canGenerate}>
+            {(scope === 'page' ? output : documentSummary) ? (
+              <>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Regenerate
+              </>
+            ) : (
+              'Generate Summary'
+            )}
+          </Button>
+        )}
+      </div>
+
+      <ScrollArea className="flex-1 min-h-0">
+        {scope === 'page' && (output || isStreaming) && (
+          <div className="p-2 rounded bg-slate-50 text-sm">
+            {output ? <AIResponseText text={output} onCitationClick={onCitationClick} /> : 'Waiting for the model...'}
+            {wasStopped && (
+              <span className="block mt-2 text-xs text-muted-foreground">Stopped before the summary was complete.</span>
+            )}
+          </div>
+        )}
+
+        {scope === 'document' && documentSummary && (
+          <div className="flex flex-col gap-4">
+            <div className="p-2 rounded bg-slate-50 text-sm">
+              <AIResponseText text={documentSummary.summary} onCitationClick={onCitationClick} />
+            </div>
+            {documentSummary.sections.length > 1 && (
+              <Accordion type="multiple">
+                {documentSummary.sections.map((section, index) => (
+                  <AccordionItem key={index} value={String(index)}>
+                    <AccordionTrigger className="text-sm text-left">
+                      <span>
+                        {section.title}
+                        <span className="ml-2 text-xs font-normal text-muted-foreground">
+                          {section.startPage === section.endPage
+                            ? `p. ${section.startPage}`
+                            : `pp. ${section.startPage}–${section.endPage}`}
+                        </span>
+                      </span>
+                    </AccordionTrigger>
+                    <AccordionContent className="text-sm">
+                      {section.summary
+                        ? <AIResponseText text={section.summary} onCitationClick={onCitationClick} />
+                        : <span className="text-muted-foreground">No text on these pages.</span>}
+                    </AccordionContent>
+                  </AccordionItem>
+                ))}
+              </Accordion>
+            )}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default AISummaryPanel;
@@ -0,0 +1,261 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { CopyPlus, FileDown, FileUp, Pencil, Play, Plus, Square, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { useAISettings } from '@/hooks/use-ai-settings';
+import { useAIStream } from '@/hooks/use-ai-stream';
+import { usePromptTemplates } from '@/hooks/use-prompt-templates';
+import { fitPrompt } from '@/lib/ai/tokens';
+import { Citation } from '@/lib/citations';
+import { downloadBlob } from '@/lib/download';
+import {
+  PromptTemplate,
+  exportTemplates,
+  getTemplateVariables,
+  parseTemplateImport,
+  renderTemplate,
+} from '@/lib/prompt-templates';
+import { ASSISTANT_SYSTEM_PROMPT, TextSelection } from '@/lib/prompts';
+import AIResponseText from './AIResponseText';
+import ContextBudgetIndicator from './ContextBudgetIndicator';
+import PromptTemplateDialog from './PromptTemplateDialog';
+
+interface AITemplatesPanelProps {
+  documentTitle: string;
+  pageText: string;
+  currentPage: number;
+  // Text chosen with "Run a template" in the selection menu, for {{selection}}
+  selection: TextSelection | null;
+  onClearSelection: () => void;
+  isConfigured: boolean;
+  onRequireSettings: () => void;
+  onCitationClick: (citation: Citation) => void;
+}
+
+const AITemplatesPanel: React.FC<AITemplatesPanelProps> = ({
+  documentTitle,
+  pageText,
+  currentPage,
+  selection,
+  onClearSelection,
+  isConfigured,
+  onRequireSettings,
+  onCitationClick,
+}) => {
+  const { builtInTemplates, customTemplates, saveTemplate, deleteTemplate, addTemplates } = usePromptTemplates();
+  const [selectedId, setSelectedId] = useState<string>(builtInTemplates[0].id);
+  const [editing, setEditing] = useState<{ template: Partial<PromptTemplate> | null } | null>(null);
+  const { provider } = useAISettings();
+  const { output, isStreaming, wasStopped, start, stop } = useAIStream();
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const templates = [...builtInTemplates, ...customTemplates];
+  const template = templates.find(candidate => candidate.id === selectedId) ?? templates[0];
+  const variables = useMemo(() => getTemplateVariables(template.prompt), [template.prompt]);
+  const needsSelection = variables.includes('selection') && !selection;
+  const needsPageText = variables.includes('pageText') && !pageText;
+
+  // The page text, or the selection when the template has no page text, is
+  // what gets shortened when the prompt is too long for the model
+  const elasticVariable = variables.includes('pageText') ? 'pageText' : 'selection';
+  const prompt = useMemo(() => {
+    const values = {
+      pageText,
+      selection: selection?.text ?? '',
+      // A template about the selection refers to the page it came from
+      pageNumber: String(selection && variables.includes('selection') ? selection.pageNumber : currentPage),
+      documentTitle,
+    };
+    return fitPrompt(provider, content => [
+      { role: 'system', content: ASSISTANT_SYSTEM_PROMPT },
+      { role: 'user', content: renderTemplate(template.prompt, { ...values, [elasticVariable]: content }) },
+    ], values[elasticVariable]);
+  }, [provider, template, variables, elasticVariable, pageText, selection, currentPage, documentTitle]);
+
+  const handleRun = () => {
+    if (!isConfigured) {
+      onRequireSettings();
+      return;
+    }
+    start(prompt.messages);
+  };
+
+  const handleSave = (saved: PromptTemplate) => {
+    saveTemplate(saved);
+    setSelectedId(saved.id);
+  };
+
+  const handleDelete = () => {
+    deleteTemplate(template.id);
+    setSelectedId(builtInTemplates[0].id);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseTemplateImport(await file.text());
+      addTemplates(imported);
+      setSelectedId(imported[0].id);
+      toast({
+        title: 'Templates imported',
+        description: `Added ${imported.length} template${imported.length === 1 ? '' : 's'} from ${file.name}.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Import failed',
+        description: error instanceof Error ? error.message : 'The file could not be read.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleExport = () => {
+    downloadBlob(
+      new Blob([exportTemplates(customTemplates)], { type: 'application/json' }),
+      'prompt-templates.json'
+    );
+  };
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0 p-4 gap-4">
+      <div className="flex items-center gap-1">
+        <Select value={template.id} onValueChange={setSelectedId} disabled={isStreaming}>
+          <SelectTrigger className="h-9 flex-1 min-w-0">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectGroup>
+              <SelectLabel>Built-in</SelectLabel>
+              {builtInTemplates.map(({ id, name }) => (
+                <SelectItem key={id} value={id}>{name}</SelectItem>
+              ))}
+            </SelectGroup>
+            {customTemplates.length > 0 && (
+              <SelectGroup>
+                <SelectLabel>My templates</SelectLabel>
+                {customTemplates.map(({ id, name }) => (
+                  <SelectItem key={id} value={id}>{name}</SelectItem>
+                ))}
+              </SelectGroup>
+            )}
+          </SelectContent>
+        </Select>
+        <Button variant="ghost" size="icon" title="New template" onClick={() => setEditing({ template: null })}>
+          <Plus className="h-4 w-4" />
+        </Button>
+        {template.builtIn ? (
+          <Button
+            variant="ghost"
+            size="icon"
+            title="Copy into a new template"
+            onClick={() => setEditing({ template: { name: `${template.name} (copy)`, description: template.description, prompt: template.prompt } })}
+          >
+            <CopyPlus className="h-4 w-4" />
+          </Button>
+        ) : (
+          <>
+            <Button variant="ghost" size="icon" title="Edit template" onClick={() => setEditing({ template })}>
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" title="Delete template" onClick={handleDelete}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+      </div>
+
+      {template.description && <p className="text-sm text-muted-foreground">{template.description}</p>}
+
+      {variables.includes('selection') && (
+        selection ? (
+          <div className="flex items-start justify-between gap-2 text-sm">
+            <p className="text-muted-foreground line-clamp-3">
+              Selection from page {selection.pageNumber}: “{selection.text}”
+            </p>
+            <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0" title="Clear the selection" onClick={onClearSelection}>
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            This template uses a selection: right-click selected text and choose Run a template.
+          </p>
+        )
+      )}
+
+      {!needsSelection && !needsPageText && (
+        <ContextBudgetIndicator
+          usage={prompt.usage}
+          contentLabel={elasticVariable === 'pageText' ? 'Page text' : 'Selection'}
+        />
+      )}
+
+      <div className="flex gap-2">
+        {isStreaming ? (
+          <Button variant="outline" className="flex-1" onClick={stop}>
+            <Square className="h-4 w-4 mr-2" />
+            Stop
+          </Button>
+        ) : (
+          <Button className="flex-1" onClick={handleRun} disabled={needsSelection || needsPageText}>
+            <Play className="h-4 w-4 mr-2" />
+            Run template
+          </Button>
+        )}
+        <Button variant="outline" size="icon" title="Import templates from JSON" onClick={() => importInputRef.current?.click()}>
+          <FileUp className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          title="Export my templates as JSON"
+          onClick={handleExport}
+          disabled={customTemplates.length === 0}
+        >
+          <FileDown className="h-4 w-4" />
+        </Button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={handleImport}
+        />
+      </div>
+
+      <ScrollArea className="flex-1 min-h-0">
+        {(output || isStreaming) && (
+          <div className="p-2 rounded bg-slate-50 text-sm">
+            {output ? <AIResponseText text={output} onCitationClick={onCitationClick} /> : 'Waiting for the model...'}
+            {wasStopped && (
+              <span className="block mt-2 text-xs text-muted-foreground">Stopped before the answer was complete.</span>
+            )}
+          </div>
+        )}
+      </ScrollArea>
+
+      <PromptTemplateDialog
+        open={editing !== null}
+        onOpenChange={(open) => !open && setEditing(null)}
+        template={editing?.template ?? null}
+        onSave={handleSave}
+      />
+    </div>
+  );
+};
+
+export default AITemplatesPanel;
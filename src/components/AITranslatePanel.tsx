@@ -0,0 +1,131 @@
+import React, { useMemo, useState } from 'react';
+import { Columns2, RotateCcw, Square, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useAISettings } from '@/hooks/use-ai-settings';
+import { useAIStream } from '@/hooks/use-ai-stream';
+import { fitPrompt } from '@/lib/ai/tokens';
+import { Citation } from '@/lib/citations';
+import { loadTranslationLanguage, saveTranslationLanguage } from '@/lib/languages';
+import { TextSelection } from '@/lib/prompts';
+import { buildTranslationMessages } from '@/lib/translate';
+import AIResponseText from './AIResponseText';
+import ContextBudgetIndicator from './ContextBudgetIndicator';
+import LanguageSelect from './LanguageSelect';
+
+interface AITranslatePanelProps {
+  pageText: string;
+  currentPage: number;
+  // Text chosen with "Translate" in the selection menu; replaces the page
+  selection: TextSelection | null;
+  onClearSelection: () => void;
+  isConfigured: boolean;
+  onRequireSettings: () => void;
+  onCitationClick: (citation: Citation) => void;
+  onOpenSideBySide: (languageCode: string) => void;
+}
+
+const AITranslatePanel: React.FC<AITranslatePanelProps> = ({
+  pageText,
+  currentPage,
+  selection,
+  onClearSelection,
+  isConfigured,
+  onRequireSettings,
+  onCitationClick,
+  onOpenSideBySide,
+}) => {
+  const [languageCode, setLanguageCode] = useState<string>(loadTranslationLanguage);
+  const { provider } = useAISettings();
+  const { output, isStreaming, wasStopped, start, stop } = useAIStream();
+
+  const sourceText = selection?.text ?? pageText;
+  const prompt = useMemo(
+    () => fitPrompt(provider, content => buildTranslationMessages(content, languageCode), sourceText),
+    [provider, languageCode, sourceText]
+  );
+
+  const handleLanguageChange = (code: string) => {
+    setLanguageCode(code);
+    saveTranslationLanguage(code);
+  };
+
+  const handleTranslate = () => {
+    if (!isConfigured) {
+      onRequireSettings();
+      return;
+    }
+    start(prompt.messages);
+  };
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0 p-4 gap-4">
+      {selection ? (
+        <div className="flex items-start justify-between gap-2 text-sm">
+          <p className="text-muted-foreground line-clamp-3">
+            Translate the selection from page {selection.pageNumber}: “{selection.text}”
+          </p>
+          <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0" title="Translate the whole page instead" onClick={onClearSelection}>
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Translate page {currentPage}, or right-click selected text and choose Translate to translate just that passage.
+        </p>
+      )}
+
+      <LanguageSelect value={languageCode} onValueChange={handleLanguageChange} disabled={isStreaming} />
+
+      {sourceText && (
+        <ContextBudgetIndicator usage={prompt.usage} contentLabel={selection ? 'Selection' : 'Page text'} />
+      )}
+      {prompt.usage.truncated && !selection && (
+        <p className="text-xs text-muted-foreground">
+          The side-by-side view translates long pages in parts, without trimming.
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        {isStreaming ? (
+          <Button variant="outline" className="flex-1" onClick={stop}>
+            <Square className="h-4 w-4 mr-2" />
+            Stop
+          </Button>
+        ) : (
+          <Button className="flex-1" onClick={handleTranslate} disabled={!sourceText}>
+            {output ? (
+              <>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Translate again
+              </>
+            ) : (
+              'Translate'
+            )}
+          </Button>
+        )}
+        <Button
+          variant="outline"
+          size="icon"
+          title="Show the translation next to the page"
+          onClick={() => isConfigured ? onOpenSideBySide(languageCode) : onRequireSettings()}
+        >
+          <Columns2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1 min-h-0">
+        {(output || isStreaming) && (
+          <div className="p-2 rounded bg-slate-50 text-sm">
+            {output ? <AIResponseText text={output} onCitationClick={onCitationClick} /> : 'Waiting for the model...'}
+            {wasStopped && (
+              <span className="block mt-2 text-xs text-muted-foreground">Stopped before the translation was complete.</span>
+            )}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default AITranslatePanel;
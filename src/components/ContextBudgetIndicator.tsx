@@ -0,0 +1,39 @@
+import React from 'react';
+import { PromptUsage } from '@/lib/ai/tokens';
+import { cn } from '@/lib/utils';
+
+interface ContextBudgetIndicatorProps {
+  usage: PromptUsage;
+  // What was shortened, e.g. "Page text"
+  contentLabel?: string;
+  className?: string;
+}
+
+// How much of the model's context the next request will take, and whether the
+// document text had to be shortened to fit
+const ContextBudgetIndicator: React.FC<ContextBudgetIndicatorProps> = ({ usage, contentLabel = 'Text', className }) => {
+  const share = usage.budget > 0 ? Math.min(usage.tokens / usage.budget, 1) : 1;
+
+  return (
+    <div className={cn('flex flex-col gap-1 text-xs text-muted-foreground', className)}>
+      <div className="flex items-center justify-between gap-2">
+        <span title="Estimated with the provider's typical tokenizer; the server's own count may differ slightly">
+          ≈ {usage.tokens.toLocaleString()} of {usage.budget.toLocaleString()} tokens
+        </span>
+        {usage.truncated && (
+          <span className="text-amber-600">
+            {contentLabel} trimmed to {Math.max(1, Math.round(usage.keptFraction * 100))}%
+          </span>
+        )}
+      </div>
+      <div className="h-1 w-full overflow-hidden rounded-full bg-slate-200">
+        <div
+          className={cn('h-full rounded-full', usage.truncated ? 'bg-amber-500' : 'bg-pdf-primary')}
+          style={{ width: `${share * 100}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ContextBudgetIndicator;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LANGUAGES } from '@/lib/languages';
+import { cn } from '@/lib/utils';
+
+interface LanguageSelectProps {
+  // ISO 639-1 code
+  value: string;
+  onValueChange: (code: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const LanguageSelect: React.FC<LanguageSelectProps> = ({ value, onValueChange, disabled, className }) => (
+  <Select value={value} onValueChange={onValueChange} disabled={disabled}>
+    <SelectTrigger className={cn('h-9', className)} aria-label="Target language">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {LANGUAGES.map(({ code, name }) => (
+        <SelectItem key={code} value={code}>
+          {name} <span className="ml-1 text-xs text-muted-foreground">{code}</span>
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+export default LanguageSelect;
@@ -0,0 +1,163 @@
+import React, { useCallback, useEffect, useLayoutEffect, useRef } from 'react';
+import { PDFDocumentProxy } from 'pdfjs-dist';
+import { ArrowDown, ArrowUp, GitCompare, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { ComparisonProgress, DiffHit } from '@/hooks/use-document-comparison';
+import { emptyPageAnnotations } from '@/lib/annotations';
+import PDFPage from './PDFPage';
+
+// The revision is only read, never annotated
+const NO_ANNOTATIONS = emptyPageAnnotations();
+const ignoreAnnotations = () => {};
+
+interface PDFCompareViewProps {
+  revisionDocument: PDFDocumentProxy;
+  fileName: string;
+  // Page of the open document the pane follows
+  pageNumber: number;
+  // Revision pages shown for it: its counterpart, then pages added after it
+  revisionPages: number[];
+  revisionHits: Record<number, DiffHit[]>;
+  // Original pages with changes, for stepping from change to change
+  changedPages: number[];
+  isReady: boolean;
+  // Set while the pages are being compared
+  progress: ComparisonProgress | null;
+  scale: number;
+  isPixelDiffShown: boolean;
+  onPixelDiffShownChange: (shown: boolean) => void;
+  onNavigate: (pageNumber: number) => void;
+  onClose: () => void;
+  // The scrolling element holding the original's pages, followed while scrolling
+  scrollContainerRef: React.RefObject<HTMLDivElement>;
+}
+
+// The revision of the open document next to it, showing the pages that match
+// the current page with added words marked
+const PDFCompareView: React.FC<PDFCompareViewProps> = ({
+  revisionDocument,
+  fileName,
+  pageNumber,
+  revisionPages,
+  revisionHits,
+  changedPages,
+  isReady,
+  progress,
+  scale,
+  isPixelDiffShown,
+  onPixelDiffShownChange,
+  onNavigate,
+  onClose,
+  scrollContainerRef,
+}) => {
+  const paneRef = useRef<HTMLDivElement>(null);
+
+  // Keeps the same spot of the matching page at the top of the pane as of
+  // the current page in the document
+  const syncScroll = useCallback(() => {
+    const container = scrollContainerRef.current;
+    const pane = paneRef.current;
+    const pageElement = container?.querySelector<HTMLElement>(`.pdf-page[data-page-number="${pageNumber}"]`);
+    const revisionElement = pane?.querySelector<HTMLElement>('.pdf-page');
+    if (!container || !pane || !pageElement || !revisionElement) return;
+
+    const pageRect = pageElement.getBoundingClientRect();
+    if (!pageRect.height) return;
+    const fraction = (container.getBoundingClientRect().top - pageRect.top) / pageRect.height;
+    pane.scrollTop = revisionElement.offsetTop + fraction * revisionElement.offsetHeight;
+  }, [scrollContainerRef, pageNumber]);
+
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+
+    container.addEventListener('scroll', syncScroll, { passive: true });
+    return () => container.removeEventListener('scroll', syncScroll);
+  }, [scrollContainerRef, syncScroll]);
+
+  useLayoutEffect(() => {
+    syncScroll();
+  }, [syncScroll, revisionPages]);
+
+  const previousChange = [...changedPages].reverse().find(page => page < pageNumber);
+  const nextChange = changedPages.find(page => page > pageNumber);
+
+  return (
+    <div className="flex flex-col h-full bg-white">
+      <div className="flex items-center gap-2 border-b p-2">
+        <GitCompare className="h-4 w-4 text-pdf-primary shrink-0" />
+        <span className="text-sm font-medium truncate" title={fileName}>{fileName}</span>
+        <div className="flex items-center gap-1 ml-auto shrink-0">
+          {isReady && (
+            <span className="text-xs text-muted-foreground mr-1">
+              {changedPages.length === 0 ? 'No text changes' : `${changedPages.length} ${changedPages.length === 1 ? 'page' : 'pages'} changed`}
+            </span>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            title="Previous change"
+            disabled={previousChange === undefined}
+            onClick={() => previousChange !== undefined && onNavigate(previousChange)}
+          >
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            title="Next change"
+            disabled={nextChange === undefined}
+            onClick={() => nextChange !== undefined && onNavigate(nextChange)}
+          >
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+          <Switch id="pixel-diff" checked={isPixelDiffShown} onCheckedChange={onPixelDiffShownChange} />
+          <Label htmlFor="pixel-diff" className="text-xs font-normal" title="Mark pixels that differ on the original's pages">
+            Pixels
+          </Label>
+          <Button variant="ghost" size="icon" title="Close the comparison" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div ref={paneRef} className="relative flex-1 min-h-0 overflow-auto bg-slate-100">
+        {!isReady ? (
+          <div className="flex flex-col gap-2 p-4 text-sm text-muted-foreground">
+            {progress ? (
+              <>
+                {progress.total > 0 ? `Comparing page ${progress.completed + 1} of ${progress.total}...` : 'Matching pages...'}
+                <Progress value={progress.total > 0 ? (progress.completed / progress.total) * 100 : 0} />
+              </>
+            ) : (
+              'Reading both documents...'
+            )}
+          </div>
+        ) : revisionPages.length === 0 ? (
+          <p className="p-4 text-sm text-muted-foreground">Page {pageNumber} was removed in this version.</p>
+        ) : (
+          revisionPages.map(revisionPage => (
+            <PDFPage
+              key={revisionPage}
+              pdfDocument={revisionDocument}
+              pageNumber={revisionPage}
+              scale={scale}
+              activeTool=""
+              highlightColor=""
+              annotations={NO_ANNOTATIONS}
+              onAnnotationsChange={ignoreAnnotations}
+              diffHits={revisionHits[revisionPage]}
+            />
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PDFCompareView;
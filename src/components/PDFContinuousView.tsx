@@ -0,0 +1,207 @@
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { PDFDocumentProxy } from 'pdfjs-dist';
+
+// Vertical space around each page, matching the my-4 margins of .pdf-page
+const PAGE_GAP = 32;
+
+// Fraction of the viewport height used as the reference line that decides
+// which page is "current" while scrolling
+const ANCHOR_RATIO = 1 / 3;
+
+interface PageSize {
+  width: number;
+  height: number;
+}
+
+interface PDFContinuousViewProps {
+  pdfDocument: PDFDocumentProxy;
+  scale: number;
+  // Page numbers in display order
+  pageOrder: number[];
+  currentPage: number;
+  scrollContainerRef: React.RefObject<HTMLDivElement>;
+  onCurrentPageChange: (pageNumber: number) => void;
+  renderPage: (pageNumber: number) => React.ReactNode;
+}
+
+// Index of the last page whose slot starts at or above y
+const findPageIndex = (tops: number[], y: number) => {
+  let low = 0;
+  let high = tops.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (tops[mid] <= y) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+};
+
+const PDFContinuousView: React.FC<PDFContinuousViewProps> = ({
+  pdfDocument,
+  scale,
+  pageOrder,
+  currentPage,
+  scrollContainerRef,
+  onCurrentPageChange,
+  renderPage,
+}) => {
+  const [pageSizes, setPageSizes] = useState<PageSize[] | null>(null);
+  // Positions (1-based indexes into pageOrder) of the first and last page to render
+  const [renderRange, setRenderRange] = useState<[number, number]>([1, 1]);
+  const reportedPageRef = useRef<number>(0);
+  const anchorRef = useRef<{ position: number, fraction: number } | null>(null);
+
+  // Unscaled size of every page by page number, so placeholders can be laid out before render
+  useEffect(() => {
+    let cancelled = false;
+    setPageSizes(null);
+
+    const loadPageSizes = async () => {
+      try {
+        const sizes = await Promise.all(
+          Array.from({ length: pdfDocument.numPages }, async (_, i) => {
+            const page = await pdfDocument.getPage(i + 1);
+            const { width, height } = page.getViewport({ scale: 1 });
+            return { width, height };
+          })
+        );
+        if (!cancelled) {
+          setPageSizes(sizes);
+        }
+      } catch (error) {
+        console.error('Error measuring pages:', error);
+      }
+    };
+
+    loadPageSizes();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdfDocument]);
+
+  const layout = useMemo(() => {
+    if (!pageSizes) return null;
+
+    const tops: number[] = [];
+    const slots: number[] = [];
+    let offset = 0;
+    pageOrder.forEach((pageNumber) => {
+      const slot = pageSizes[pageNumber - 1].height * scale + PAGE_GAP;
+      tops.push(offset);
+      slots.push(slot);
+      offset += slot;
+    });
+
+    return { tops, slots, totalHeight: offset };
+  }, [pageSizes, pageOrder, scale]);
+
+  const updateFromScroll = useCallback(() => {
+    const container = scrollContainerRef.current;
+    if (!container || !layout) return;
+
+    const { scrollTop, clientHeight } = container;
+    const { tops, slots } = layout;
+
+    // Render everything within one viewport height above and below
+    const first = findPageIndex(tops, scrollTop - clientHeight) + 1;
+    const last = findPageIndex(tops, scrollTop + clientHeight * 2) + 1;
+    setRenderRange(prev => (prev[0] === first && prev[1] === last ? prev : [first, last]));
+
+    const anchorY = scrollTop + clientHeight * ANCHOR_RATIO;
+    const index = findPageIndex(tops, anchorY);
+    anchorRef.current = { position: index + 1, fraction: (anchorY - tops[index]) / slots[index] };
+
+    const pageNumber = pageOrder[index];
+    if (pageNumber !== reportedPageRef.current) {
+      reportedPageRef.current = pageNumber;
+      onCurrentPageChange(pageNumber);
+    }
+  }, [scrollContainerRef, layout, pageOrder, onCurrentPageChange]);
+
+  // Navigation from outside (page input, arrow buttons): bring the page to the top
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!container || !layout || currentPage === reportedPageRef.current) return;
+
+    reportedPageRef.current = currentPage;
+    container.scrollTop = layout.tops[pageOrder.indexOf(currentPage)] ?? 0;
+    updateFromScroll();
+  }, [currentPage, layout, pageOrder, scrollContainerRef, updateFromScroll]);
+
+  // Layout changes (zoom): keep the same spot of the same page under the anchor line
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current;
+    const anchor = anchorRef.current;
+    if (!container || !layout) return;
+
+    if (anchor) {
+      container.scrollTop =
+        layout.tops[anchor.position - 1] +
+        anchor.fraction * layout.slots[anchor.position - 1] -
+        container.clientHeight * ANCHOR_RATIO;
+    }
+    updateFromScroll();
+  }, [layout, scrollContainerRef, updateFromScroll]);
+
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+
+    let frame = 0;
+    const handleScroll = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(updateFromScroll);
+    };
+
+    const resizeObserver = new ResizeObserver(handleScroll);
+    resizeObserver.observe(container);
+    container.addEventListener('scroll', handleScroll, { passive: true });
+
+    return () => {
+      cancelAnimationFrame(frame);
+      resizeObserver.disconnect();
+      container.removeEventListener('scroll', handleScroll);
+    };
+  }, [scrollContainerRef, updateFromScroll]);
+
+  if (!pageSizes || !layout) {
+    return (
+      <div className="flex items-center justify-center h-full text-sm text-muted-foreground">
+        Loading pages...
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ height: layout.totalHeight }}>
+      {pageOrder.map((pageNumber, i) => {
+        const size = pageSizes[pageNumber - 1];
+        const isInRange = i + 1 >= renderRange[0] && i + 1 <= renderRange[1];
+
+        return (
+          <div
+            key={pageNumber}
+            className="flow-root"
+            style={{ height: layout.slots[i] }}
+            data-page-number={pageNumber}
+          >
+            {isInRange ? (
+              renderPage(pageNumber)
+            ) : (
+              <div
+                className="pdf-page"
+                style={{ width: size.width * scale, height: size.height * scale }}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PDFContinuousView;
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { PDFDocumentProxy } from 'pdfjs-dist';
+import { ChevronRight } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { OutlineItem, ResolvedDestination, loadOutline, resolveDestination } from '@/lib/pdf-outline';
+import { cn } from '@/lib/utils';
+
+interface PDFOutlineProps {
+  pdfDocument: PDFDocumentProxy;
+  onNavigate: (destination: ResolvedDestination) => void;
+}
+
+interface OutlineNodeProps {
+  item: OutlineItem;
+  depth: number;
+  onSelect: (item: OutlineItem) => void;
+}
+
+const OutlineNode: React.FC<OutlineNodeProps> = ({ item, depth, onSelect }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const hasChildren = item.items.length > 0;
+
+  const title = (
+    <button
+      type="button"
+      onClick={() => onSelect(item)}
+      className={cn(
+        'flex-1 truncate rounded px-1 py-1 text-left text-sm hover:bg-sidebar-accent',
+        item.bold && 'font-semibold',
+        item.italic && 'italic'
+      )}
+      title={item.title}
+    >
+      {item.title}
+    </button>
+  );
+
+  if (!hasChildren) {
+    return (
+      <div className="flex items-center" style={{ paddingLeft: depth * 12 + 20 }}>
+        {title}
+      </div>
+    );
+  }
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <div className="flex items-center" style={{ paddingLeft: depth * 12 }}>
+        <CollapsibleTrigger className="rounded p-0.5 hover:bg-sidebar-accent">
+          <ChevronRight className={cn('h-4 w-4 transition-transform', isOpen && 'rotate-90')} />
+        </CollapsibleTrigger>
+        {title}
+      </div>
+      <CollapsibleContent>
+        {item.items.map((child, i) => (
+          <OutlineNode key={i} item={child} depth={depth + 1} onSelect={onSelect} />
+        ))}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+const PDFOutline: React.FC<PDFOutlineProps> = ({ pdfDocument, onNavigate }) => {
+  const [outline, setOutline] = useState<OutlineItem[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setOutline(null);
+
+    loadOutline(pdfDocument)
+      .then((items) => {
+        if (!cancelled) setOutline(items);
+      })
+      .catch((error) => {
+        console.error('Error loading outline:', error);
+        if (!cancelled) setOutline([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdfDocument]);
+
+  const handleSelect = async (item: OutlineItem) => {
+    if (item.url) {
+      window.open(item.url, '_blank', 'noopener,noreferrer');
+      return;
+    }
+
+    try {
+      const destination = await resolveDestination(pdfDocument, item.dest);
+      if (destination) {
+        onNavigate(destination);
+      }
+    } catch (error) {
+      console.error('Error resolving outline destination:', error);
+    }
+  };
+
+  if (outline === null) {
+    return <p className="p-4 text-sm text-muted-foreground">Loading outline...</p>;
+  }
+
+  if (outline.length === 0) {
+    return <p className="p-4 text-sm text-muted-foreground">This document has no outline.</p>;
+  }
+
+  return (
+    <div className="flex flex-col p-2">
+      {outline.map((item, i) => (
+        <OutlineNode key={i} item={item} depth={0} onSelect={handleSelect} />
+      ))}
+    </div>
+  );
+};
+
+export default PDFOutline;
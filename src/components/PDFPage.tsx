@@ -1,8 +1,33 @@
 
-import React, { useEffect, useState, useRef } from 'react';
-import { PDFDocumentProxy } from 'pdfjs-dist';
+import React, { useEffect, useMemo, useState, useRef } from 'react';
+import { PDFDocumentProxy, PageViewport } from 'pdfjs-dist';
 import * as pdfjs from 'pdfjs-dist';
-import { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { RenderTask, TextItem } from 'pdfjs-dist/types/src/display/api';
+import { cn, createId } from '@/lib/utils';
+import { AnnotationKind, AnnotationRect, PageAnnotations, PageAnnotationsUpdater, removeAnnotation } from '@/lib/annotations';
+import { toPdfPoint, toPdfRect, toSvgPath, toViewportPoint, toViewportRect } from '@/lib/pdf-coordinates';
+import { findQuoteRange } from '@/lib/citations';
+import { buildTermMatchers, findTermOccurrences } from '@/lib/glossary';
+import { GlossaryEntry } from '@/lib/glossary-store';
+import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card';
+
+// Pen stroke width in PDF points (3px at the default 150% zoom)
+const INK_WIDTH = 2;
+
+// Extra distance in pixels around a pen stroke that still counts as a hit
+const ERASE_TOLERANCE = 4;
+
+const distanceToSegment = (
+  [px, py]: [number, number],
+  [ax, ay]: [number, number],
+  [bx, by]: [number, number]
+) => {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSquared));
+  return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+};
 
 interface PDFPageProps {
   pdfDocument: PDFDocumentProxy;
@@ -10,7 +35,22 @@ interface PDFPageProps {
   scale: number;
   activeTool: string;
   highlightColor: string;
+  annotations: PageAnnotations;
+  onAnnotationsChange: (updater: PageAnnotationsUpdater) => void;
   onPageRendered?: (pageNumber: number, textContent: string) => void;
+  className?: string;
+  // Search matches on this page as offsets into the page text
+  searchHits?: Array<{ start: number, end: number }>;
+  activeSearchHit?: { start: number, end: number } | null;
+  // A cited passage to flash briefly; without a findable quote the whole page
+  // flashes. A new id replays the flash.
+  flash?: { quote: string | null, id: number } | null;
+  // Glossary terms to underline; hovering one shows its definition
+  glossary?: GlossaryEntry[];
+  // Words removed or added when comparing two versions, as offsets into the page text
+  diffHits?: Array<{ start: number, end: number, kind: 'insert' | 'delete' }>;
+  // Drawn over the page, below the annotations (the pixel diff of a comparison)
+  overlay?: React.ReactNode;
 }
 
 const PDFPage: React.FC<PDFPageProps> = ({
@@ -19,34 +59,34 @@ const PDFPage: React.FC<PDFPageProps> = ({
   scale,
   activeTool,
   highlightColor,
+  annotations,
+  onAnnotationsChange,
   onPageRendered,
+  className,
+  searchHits,
+  activeSearchHit,
+  flash,
+  glossary,
+  diffHits,
+  overlay,
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const textLayerRef = useRef<HTMLDivElement>(null);
   const annotationLayerRef = useRef<HTMLDivElement>(null);
-  const [pageSize, setPageSize] = useState({ width: 0, height: 0 });
+  const [viewport, setViewport] = useState<PageViewport | null>(null);
   const [isDrawing, setIsDrawing] = useState(false);
   const [startPoint, setStartPoint] = useState({ x: 0, y: 0 });
-  const [currentPath, setCurrentPath] = useState<string>('');
-  const [paths, setPaths] = useState<Array<{path: string, color: string, type: string}>>([]);
-  const [highlights, setHighlights] = useState<Array<{
-    rects: Array<{x: number, y: number, width: number, height: number}>,
-    color: string
-  }>>([]);
-  const [selectedText, setSelectedText] = useState<string>('');
-  const [textAnnotations, setTextAnnotations] = useState<Array<{
-    x: number,
-    y: number,
-    text: string
-  }>>([]);
-  const [shapes, setShapes] = useState<Array<{
-    type: string,
-    x: number,
-    y: number,
-    width: number,
-    height: number,
-    color: string
-  }>>([]);
+  const [currentPoints, setCurrentPoints] = useState<Array<[number, number]>>([]);
+  // Text layer spans with the offset of their text within the page text
+  const textSpansRef = useRef<Array<{ span: HTMLSpanElement, start: number, text: string }>>([]);
+  const [textLayerVersion, setTextLayerVersion] = useState(0);
+  const scrolledHitRef = useRef<string | null>(null);
+  const pageTextRef = useRef<string>('');
+  const pageRef = useRef<HTMLDivElement>(null);
+  const flashedIdRef = useRef<number | null>(null);
+  // The underlined term under the pointer, positioned relative to the page
+  const [hoveredTerm, setHoveredTerm] = useState<{ id: string, left: number, top: number, width: number, height: number } | null>(null);
+  const { highlights, paths, notes: textAnnotations, shapes } = annotations;
 
   const speechSynthesisRef = useRef<SpeechSynthesis | null>(null);
   
@@ -74,6 +114,9 @@ const PDFPage: React.FC<PDFPageProps> = ({
   }, [activeTool]);
 
   useEffect(() => {
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+
     const renderPage = async () => {
       if (!pdfDocument || !canvasRef.current || !textLayerRef.current) {
         return;
@@ -83,15 +126,11 @@ const PDFPage: React.FC<PDFPageProps> = ({
         // Clear previous content
         const textLayer = textLayerRef.current;
         textLayer.innerHTML = '';
-        
-        // Reset annotations
-        setHighlights([]);
-        setPaths([]);
-        setTextAnnotations([]);
-        setShapes([]);
+        textSpansRef.current = [];
 
         // Get the page
         const page = await pdfDocument.getPage(pageNumber);
+        if (cancelled) return;
         const viewport = page.getViewport({ scale });
         
         // Set up canvas
@@ -99,35 +138,41 @@ const PDFPage: React.FC<PDFPageProps> = ({
         const context = canvas.getContext('2d')!;
         canvas.width = viewport.width;
         canvas.height = viewport.height;
-        setPageSize({ width: viewport.width, height: viewport.height });
+        setViewport(viewport);
         
         // Render PDF page to canvas
         const renderContext = {
           canvasContext: context,
           viewport,
+          annotationMode: pdfjs.AnnotationMode.ENABLE_STORAGE,
         };
         
-        await page.render(renderContext).promise;
+        renderTask = page.render(renderContext);
+        await renderTask.promise;
         
         // Extract text content
         const textContent = await page.getTextContent();
+        if (cancelled) return;
         const textItems = textContent.items as TextItem[];
         
         // Collect and display text layer
         let pageText = '';
         textItems.forEach((item) => {
           if ('str' in item) {
+            const start = pageText.length;
             pageText += item.str + ' ';
             
             const tx = pdfjs.Util.transform(
               viewport.transform,
               item.transform
             );
+            const fontHeight = Math.sqrt((tx[2] * tx[2]) + (tx[3] * tx[3]));
             
+            // tx[5] is the baseline; the span box sits on top of it
             const style = {
               left: `${tx[4]}px`,
-              top: `${tx[5]}px`,
-              fontSize: `${Math.sqrt((tx[2] * tx[2]) + (tx[3] * tx[3]))}px`,
+              top: `${tx[5] - fontHeight}px`,
+              fontSize: `${fontHeight}px`,
               transform: `scaleX(${tx[0] / tx[2]})`,
               width: `${item.width * viewport.scale}px`,
               height: `${item.height * viewport.scale}px`,
@@ -140,23 +185,165 @@ const PDFPage: React.FC<PDFPageProps> = ({
             textSpan.dataset.text = item.str;
             
             textLayer.appendChild(textSpan);
+            textSpansRef.current.push({ span: textSpan, start, text: item.str });
           }
         });
+        pageTextRef.current = pageText;
+        setTextLayerVersion(version => version + 1);
         
         if (onPageRendered) {
           onPageRendered(pageNumber, pageText);
         }
         
       } catch (error) {
+        if (cancelled || error instanceof pdfjs.RenderingCancelledException) return;
         console.error('Error rendering page:', error);
       }
     };
 
     renderPage();
-  }, [pdfDocument, pageNumber, scale, onPageRendered]);
+
+    // Stop an in-flight render when the page, scale or document changes, or
+    // when the page is unmounted (e.g. scrolled out of range)
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+    // importedRefs changes once the PDF's own annotations have been imported;
+    // re-rendering then drops their original appearance from the canvas
+  }, [pdfDocument, pageNumber, scale, onPageRendered, annotations.importedRefs]);
+
+  const searchHitsKey = (searchHits || []).map(hit => `${hit.start}-${hit.end}`).join(',');
+  const activeSearchHitKey = activeSearchHit ? `${activeSearchHit.start}-${activeSearchHit.end}` : null;
+
+  const flashId = flash?.id ?? null;
+  const flashQuote = flash?.quote ?? null;
+  const diffHitsKey = (diffHits || []).map(hit => `${hit.kind}:${hit.start}-${hit.end}`).join(',');
+  const termMatchers = useMemo(() => (glossary ? buildTermMatchers(glossary) : []), [glossary]);
+
+  // Wrap search matches, the flashed citation, compared changes and glossary
+  // terms in the text layer in <mark> elements
+  useEffect(() => {
+    const hits: Array<{ start: number, end: number, className: string, termId?: string }> = searchHitsKey
+      ? searchHitsKey.split(',').map((key) => {
+          const [start, end] = key.split('-').map(Number);
+          return { start, end, className: key === activeSearchHitKey ? 'search-hit active' : 'search-hit' };
+        })
+      : [];
+
+    // Wait for the text layer before deciding whether the quote can be found
+    const isTextReady = textLayerVersion > 0;
+    const flashRange = flashId !== null && flashQuote && isTextReady
+      ? findQuoteRange(pageTextRef.current, flashQuote)
+      : null;
+    if (flashRange) {
+      hits.push({ ...flashRange, className: 'citation-flash' });
+    }
+    // Changes and terms are only marked where nothing earlier in this list is shown
+    if (diffHitsKey) {
+      const shown = [...hits];
+      diffHitsKey.split(',').forEach((key) => {
+        const [kind, range] = key.split(':');
+        const [start, end] = range.split('-').map(Number);
+        if (!shown.some(hit => hit.start < end && hit.end > start)) {
+          hits.push({ start, end, className: kind === 'insert' ? 'diff-insert' : 'diff-delete' });
+        }
+      });
+    }
+    if (isTextReady && termMatchers.length > 0) {
+      const shown = [...hits];
+      findTermOccurrences(pageTextRef.current, termMatchers).forEach(({ start, end, entryId }) => {
+        if (!shown.some(hit => hit.start < end && hit.end > start)) {
+          hits.push({ start, end, className: 'glossary-term', termId: entryId });
+        }
+      });
+    }
+    hits.sort((a, b) => a.start - b.start);
+
+    let activeMark: HTMLElement | null = null;
+    let flashMark: HTMLElement | null = null;
+
+    textSpansRef.current.forEach(({ span, start, text }) => {
+      const end = start + text.length;
+      const ranges = hits
+        .filter(hit => hit.start < end && hit.end > start)
+        .map(hit => ({
+          from: Math.max(hit.start, start) - start,
+          to: Math.min(hit.end, end) - start,
+          className: hit.className,
+          termId: hit.termId,
+        }));
+
+      if (ranges.length === 0) {
+        if (span.childElementCount > 0) span.textContent = text;
+        return;
+      }
+
+      span.textContent = '';
+      let cursor = 0;
+      ranges.forEach(({ from, to, className, termId }) => {
+        // Overlapping ranges keep the earlier mark
+        if (to <= cursor) return;
+        from = Math.max(from, cursor);
+        if (from > cursor) span.appendChild(document.createTextNode(text.slice(cursor, from)));
+        const mark = document.createElement('mark');
+        mark.className = className;
+        mark.textContent = text.slice(from, to);
+        if (termId) mark.dataset.termId = termId;
+        span.appendChild(mark);
+        if (className === 'search-hit active' && !activeMark) activeMark = mark;
+        if (className === 'citation-flash' && !flashMark) flashMark = mark;
+        cursor = to;
+      });
+      if (cursor < text.length) span.appendChild(document.createTextNode(text.slice(cursor)));
+    });
+
+    // Bring the active match into view once, not on every re-render
+    if (activeMark && scrolledHitRef.current !== activeSearchHitKey) {
+      scrolledHitRef.current = activeSearchHitKey;
+      (activeMark as HTMLElement).scrollIntoView({ block: 'center', inline: 'nearest' });
+    }
+    if (!activeSearchHitKey) {
+      scrolledHitRef.current = null;
+    }
+
+    // Citations scroll to the quoted passage, or flash the page when the
+    // quote is missing or cannot be found in the text
+    if (flashId !== null && isTextReady && flashedIdRef.current !== flashId) {
+      flashedIdRef.current = flashId;
+      const target = flashMark as HTMLElement | null;
+      if (target) {
+        target.scrollIntoView({ block: 'center', inline: 'nearest' });
+      } else if (pageRef.current) {
+        const page = pageRef.current;
+        page.classList.remove('page-flash');
+        // Restart the animation when the same page is cited twice in a row
+        void page.offsetWidth;
+        page.classList.add('page-flash');
+      }
+    }
+  }, [searchHitsKey, activeSearchHitKey, flashId, flashQuote, textLayerVersion, diffHitsKey, termMatchers]);
+
+  const handleTextLayerMouseOver = (e: React.MouseEvent<HTMLDivElement>) => {
+    const mark = (e.target as HTMLElement).closest<HTMLElement>('mark.glossary-term');
+    if (!mark || !pageRef.current) return;
+
+    const page = pageRef.current.getBoundingClientRect();
+    const rect = mark.getBoundingClientRect();
+    setHoveredTerm({
+      id: mark.dataset.termId ?? '',
+      left: rect.left - page.left,
+      top: rect.top - page.top,
+      width: rect.width,
+      height: rect.height,
+    });
+  };
+
+  // Looked up on every render so a removed term closes its card
+  const hoveredEntry = hoveredTerm ? glossary?.find(entry => entry.id === hoveredTerm.id) : undefined;
 
   const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
-    if (!activeTool) return;
+    if (!activeTool || !viewport) return;
     
     const rect = e.currentTarget.getBoundingClientRect();
     const x = e.clientX - rect.left;
@@ -165,7 +352,7 @@ const PDFPage: React.FC<PDFPageProps> = ({
     if (activeTool === 'pen') {
       setIsDrawing(true);
       setStartPoint({ x, y });
-      setCurrentPath(`M ${x} ${y}`);
+      setCurrentPoints([[x, y]]);
     } else if (activeTool === 'highlight') {
       // Check if there's a text selection
       const selection = window.getSelection();
@@ -176,11 +363,19 @@ const PDFPage: React.FC<PDFPageProps> = ({
       // Add text annotation
       const text = prompt('Enter text:');
       if (text) {
-        setTextAnnotations([...textAnnotations, { x, y, text }]);
+        onAnnotationsChange(prev => ({
+          ...prev,
+          notes: [...prev.notes, { id: createId(), point: toPdfPoint(viewport, x, y), text }],
+        }));
       }
     } else if (activeTool === 'shape') {
       setIsDrawing(true);
       setStartPoint({ x, y });
+    } else if (activeTool === 'erase') {
+      const hit = findAnnotationAt(e.clientX, e.clientY, x, y);
+      if (hit) {
+        onAnnotationsChange(prev => removeAnnotation(prev, hit.kind, hit.id));
+      }
     } else if (activeTool === 'tts') {
       // Check if there's a text selection for text-to-speech
       const selection = window.getSelection();
@@ -211,45 +406,98 @@ const PDFPage: React.FC<PDFPageProps> = ({
     const y = e.clientY - rect.top;
     
     if (activeTool === 'pen') {
-      setCurrentPath(prev => `${prev} L ${x} ${y}`);
+      setCurrentPoints(prev => [...prev, [x, y]]);
     } else if (activeTool === 'shape') {
       // This is just for preview, we'll create the actual shape on mouse up
     }
   };
 
   const handleMouseUp = (e: React.MouseEvent<HTMLDivElement>) => {
-    if (!activeTool || !isDrawing) return;
+    if (!activeTool || !isDrawing || !viewport) return;
     
     const rect = e.currentTarget.getBoundingClientRect();
     const x = e.clientX - rect.left;
     const y = e.clientY - rect.top;
     
     if (activeTool === 'pen') {
-      setPaths([...paths, { path: currentPath, color: highlightColor, type: 'pen' }]);
-      setCurrentPath('');
+      const points = currentPoints.map(([px, py]) => toPdfPoint(viewport, px, py));
+      onAnnotationsChange(prev => ({
+        ...prev,
+        paths: [...prev.paths, { id: createId(), points, color: highlightColor, width: INK_WIDTH }],
+      }));
+      setCurrentPoints([]);
     } else if (activeTool === 'shape') {
       // Create a shape based on start and end points
-      const width = Math.abs(x - startPoint.x);
-      const height = Math.abs(y - startPoint.y);
-      const left = Math.min(x, startPoint.x);
-      const top = Math.min(y, startPoint.y);
+      const shapeRect = {
+        x: Math.min(x, startPoint.x),
+        y: Math.min(y, startPoint.y),
+        width: Math.abs(x - startPoint.x),
+        height: Math.abs(y - startPoint.y),
+      };
       
-      setShapes([...shapes, {
-        type: 'rectangle',
-        x: left,
-        y: top,
-        width,
-        height,
-        color: highlightColor
-      }]);
+      onAnnotationsChange(prev => ({
+        ...prev,
+        shapes: [...prev.shapes, {
+          id: createId(),
+          type: 'rectangle',
+          rect: toPdfRect(viewport, shapeRect),
+          color: highlightColor
+        }],
+      }));
     }
     
     setIsDrawing(false);
   };
 
+  // Finds the topmost annotation under the pointer. Highlights, notes and shapes
+  // are hit-tested through their rendered boxes, pen strokes by distance.
+  const findAnnotationAt = (
+    clientX: number,
+    clientY: number,
+    x: number,
+    y: number
+  ): { kind: AnnotationKind, id: string } | null => {
+    if (!viewport || !annotationLayerRef.current) return null;
+    
+    const elements = Array.from(
+      annotationLayerRef.current.querySelectorAll<HTMLElement>('[data-annotation-id]')
+    ).reverse();
+    for (const element of elements) {
+      const rect = element.getBoundingClientRect();
+      if (clientX >= rect.left && clientX <= rect.right && clientY >= rect.top && clientY <= rect.bottom) {
+        return { kind: element.dataset.annotationKind as AnnotationKind, id: element.dataset.annotationId! };
+      }
+    }
+    
+    for (const pathData of [...paths].reverse()) {
+      const points = pathData.points.map(point => toViewportPoint(viewport, point));
+      const tolerance = (pathData.width * viewport.scale) / 2 + ERASE_TOLERANCE;
+      const hit = points.some((point, i) =>
+        distanceToSegment([x, y], points[Math.max(i - 1, 0)], point) <= tolerance
+      );
+      if (hit) {
+        return { kind: 'paths', id: pathData.id };
+      }
+    }
+    
+    return null;
+  };
+
+  const handleEditNote = (id: string, currentText: string) => {
+    const text = prompt('Edit text:', currentText);
+    if (text === null) return;
+    
+    onAnnotationsChange(prev => text
+      ? { ...prev, notes: prev.notes.map(note => note.id === id ? { ...note, text } : note) }
+      : removeAnnotation(prev, 'notes', id)
+    );
+  };
+
   const handleTextSelection = (selection: Selection) => {
+    if (!viewport) return;
+    
     const range = selection.getRangeAt(0);
-    const rects: Array<{x: number, y: number, width: number, height: number}> = [];
+    const rects: AnnotationRect[] = [];
     
     // Get client rects of the selection
     const clientRects = range.getClientRects();
@@ -267,8 +515,12 @@ const PDFPage: React.FC<PDFPageProps> = ({
     
     // Add the highlight
     if (rects.length > 0) {
-      setHighlights([...highlights, { rects, color: highlightColor }]);
-      setSelectedText(selection.toString());
+      const text = selection.toString();
+      const pdfRects = rects.map(rect => toPdfRect(viewport, rect));
+      onAnnotationsChange(prev => ({
+        ...prev,
+        highlights: [...prev.highlights, { id: createId(), rects: pdfRects, color: highlightColor, text }],
+      }));
     }
     
     // Clear the selection
@@ -277,51 +529,82 @@ const PDFPage: React.FC<PDFPageProps> = ({
 
   return (
     <div 
-      className="pdf-page relative"
-      style={{ width: pageSize.width, height: pageSize.height }} 
+      ref={pageRef}
+      className={cn('pdf-page relative', className)}
+      onAnimationEnd={(e) => e.currentTarget.classList.remove('page-flash')}
+      data-page-number={pageNumber}
+      style={{ width: viewport?.width || 0, height: viewport?.height || 0 }} 
     >
       <canvas ref={canvasRef} className="absolute top-0 left-0" />
+      {overlay}
       
+      {/* Selectable without a tool too, for the selection menu */}
       <div 
         ref={textLayerRef} 
         className="absolute top-0 left-0 w-full h-full overflow-hidden"
-        style={{ userSelect: activeTool === 'highlight' || activeTool === 'tts' ? 'text' : 'none' }}
+        style={{ userSelect: !activeTool || activeTool === 'highlight' || activeTool === 'tts' ? 'text' : 'none' }}
+        onMouseOver={handleTextLayerMouseOver}
       />
+
+      {/* Definition of the hovered glossary term, anchored over the term */}
+      {hoveredTerm && hoveredEntry && (
+        <HoverCard open onOpenChange={(open) => !open && setHoveredTerm(null)} openDelay={0} closeDelay={150}>
+          <HoverCardTrigger asChild>
+            <span
+              className="absolute cursor-help"
+              style={{ left: hoveredTerm.left, top: hoveredTerm.top, width: hoveredTerm.width, height: hoveredTerm.height }}
+            />
+          </HoverCardTrigger>
+          <HoverCardContent side="top" className="w-72 text-sm">
+            <p className="font-medium">
+              {hoveredEntry.term}
+              {hoveredEntry.expansion && <span className="font-normal text-muted-foreground"> · {hoveredEntry.expansion}</span>}
+            </p>
+            <p className="mt-1">{hoveredEntry.definition}</p>
+            <p className="mt-2 text-xs text-muted-foreground">Glossary, defined on page {hoveredEntry.definedOn}</p>
+          </HoverCardContent>
+        </HoverCard>
+      )}
       
       <div 
         ref={annotationLayerRef}
         className="absolute top-0 left-0 w-full h-full overflow-hidden pointer-events-none"
       >
         {/* Highlights */}
-        {highlights.map((highlight, i) => (
-          <div key={`highlight-${i}`}>
-            {highlight.rects.map((rect, j) => (
-              <div 
-                key={`highlight-${i}-${j}`}
-                className="highlight"
-                style={{
-                  left: `${rect.x}px`,
-                  top: `${rect.y}px`,
-                  width: `${rect.width}px`,
-                  height: `${rect.height}px`,
-                  backgroundColor: highlight.color,
-                  opacity: 0.5,
-                  position: 'absolute',
-                }}
-              />
-            ))}
+        {viewport && highlights.map((highlight) => (
+          <div key={highlight.id}>
+            {highlight.rects.map((pdfRect, j) => {
+              const rect = toViewportRect(viewport, pdfRect);
+              return (
+                <div 
+                  key={`${highlight.id}-${j}`}
+                  data-annotation-kind="highlights"
+                  data-annotation-id={highlight.id}
+                  className="highlight"
+                  style={{
+                    left: `${rect.x}px`,
+                    top: `${rect.y}px`,
+                    width: `${rect.width}px`,
+                    height: `${rect.height}px`,
+                    backgroundColor: highlight.color,
+                    opacity: 0.5,
+                    position: 'absolute',
+                  }}
+                />
+              );
+            })}
           </div>
         ))}
         
         {/* Drawings */}
         <svg className="absolute top-0 left-0 w-full h-full">
           {/* Completed paths */}
-          {paths.map((pathData, i) => (
+          {viewport && paths.map((pathData) => (
             <path
-              key={`path-${i}`}
-              d={pathData.path}
+              key={pathData.id}
+              d={toSvgPath(pathData.points.map(point => toViewportPoint(viewport, point)))}
               stroke={pathData.color}
-              strokeWidth="3"
+              strokeWidth={pathData.width * viewport.scale}
               fill="none"
               strokeLinecap="round"
               strokeLinejoin="round"
@@ -329,11 +612,11 @@ const PDFPage: React.FC<PDFPageProps> = ({
           ))}
           
           {/* Current path */}
-          {isDrawing && currentPath && (
+          {viewport && isDrawing && currentPoints.length > 0 && (
             <path
-              d={currentPath}
+              d={toSvgPath(currentPoints)}
               stroke={highlightColor}
-              strokeWidth="3"
+              strokeWidth={INK_WIDTH * viewport.scale}
               fill="none"
               strokeLinecap="round"
               strokeLinejoin="round"
@@ -342,36 +625,46 @@ const PDFPage: React.FC<PDFPageProps> = ({
         </svg>
         
         {/* Text annotations */}
-        {textAnnotations.map((anno, i) => (
-          <div
-            key={`text-${i}`}
-            className="absolute bg-white p-2 rounded shadow-md border border-gray-300"
-            style={{
-              left: `${anno.x}px`,
-              top: `${anno.y}px`,
-              pointerEvents: 'auto'
-            }}
-          >
-            {anno.text}
-          </div>
-        ))}
+        {viewport && textAnnotations.map((anno) => {
+          const [x, y] = toViewportPoint(viewport, anno.point);
+          return (
+            <div
+              key={anno.id}
+              data-annotation-kind="notes"
+              data-annotation-id={anno.id}
+              className="absolute bg-white p-2 rounded shadow-md border border-gray-300 whitespace-pre-wrap"
+              style={{
+                left: `${x}px`,
+                top: `${y}px`,
+                pointerEvents: 'auto'
+              }}
+              onDoubleClick={() => handleEditNote(anno.id, anno.text)}
+            >
+              {anno.text}
+            </div>
+          );
+        })}
         
         {/* Shapes */}
-        {shapes.map((shape, i) => (
-          shape.type === 'rectangle' ? (
+        {viewport && shapes.map((shape) => {
+          if (shape.type !== 'rectangle') return null;
+          const rect = toViewportRect(viewport, shape.rect);
+          return (
             <div
-              key={`shape-${i}`}
+              key={shape.id}
+              data-annotation-kind="shapes"
+              data-annotation-id={shape.id}
               className="absolute border-2"
               style={{
-                left: `${shape.x}px`,
-                top: `${shape.y}px`,
-                width: `${shape.width}px`,
-                height: `${shape.height}px`,
+                left: `${rect.x}px`,
+                top: `${rect.y}px`,
+                width: `${rect.width}px`,
+                height: `${rect.height}px`,
                 borderColor: shape.color
               }}
             />
-          ) : null
-        ))}
+          );
+        })}
       </div>
       
       <div 
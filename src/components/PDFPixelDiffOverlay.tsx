@@ -0,0 +1,63 @@
+import React, { useEffect, useRef } from 'react';
+import { PDFDocumentProxy } from 'pdfjs-dist';
+import * as pdfjs from 'pdfjs-dist';
+import { RenderTask } from 'pdfjs-dist/types/src/display/api';
+import { diffPixels, renderPageToImage } from '@/lib/pixel-diff';
+
+// Pause after the page or zoom changes before rendering, so dragging the zoom
+// slider does not render both pages at every step
+const RENDER_DELAY = 200;
+
+interface PDFPixelDiffOverlayProps {
+  originalDocument: PDFDocumentProxy;
+  originalPage: number;
+  revisionDocument: PDFDocumentProxy;
+  revisionPage: number;
+  scale: number;
+}
+
+// Paints the pixels that differ between a page and its counterpart in the
+// revision, to be laid over the original page
+const PDFPixelDiffOverlay: React.FC<PDFPixelDiffOverlayProps> = ({
+  originalDocument,
+  originalPage,
+  revisionDocument,
+  revisionPage,
+  scale,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const renderTasks: RenderTask[] = [];
+    const keepRenderTask = (task: RenderTask) => renderTasks.push(task);
+
+    const timeout = setTimeout(async () => {
+      try {
+        const original = await renderPageToImage(originalDocument, originalPage, scale, keepRenderTask);
+        if (cancelled) return;
+        const revision = await renderPageToImage(revisionDocument, revisionPage, scale, keepRenderTask);
+        const canvas = canvasRef.current;
+        if (cancelled || !canvas) return;
+
+        const { image } = diffPixels(original, revision);
+        canvas.width = image.width;
+        canvas.height = image.height;
+        canvas.getContext('2d')!.putImageData(image, 0, 0);
+      } catch (error) {
+        if (cancelled || error instanceof pdfjs.RenderingCancelledException) return;
+        console.error('Error comparing page images:', error);
+      }
+    }, RENDER_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+      renderTasks.forEach(task => task.cancel());
+    };
+  }, [originalDocument, originalPage, revisionDocument, revisionPage, scale]);
+
+  return <canvas ref={canvasRef} className="absolute top-0 left-0 pointer-events-none" />;
+};
+
+export default PDFPixelDiffOverlay;
@@ -0,0 +1,129 @@
+import React, { useEffect, useRef } from 'react';
+import { ChevronDown, ChevronUp, CaseSensitive, WholeWord, Regex } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Toggle } from '@/components/ui/toggle';
+import { MAX_SEARCH_HITS, SearchHit, SearchOptions } from '@/lib/search';
+import { cn } from '@/lib/utils';
+
+interface PDFSearchPanelProps {
+  query: string;
+  options: SearchOptions;
+  hits: SearchHit[];
+  activeIndex: number;
+  error: string | null;
+  isIndexing: boolean;
+  onQueryChange: (query: string) => void;
+  onOptionsChange: (options: SearchOptions) => void;
+  onHitSelect: (index: number) => void;
+  onFindNext: () => void;
+  onFindPrevious: () => void;
+}
+
+const PDFSearchPanel: React.FC<PDFSearchPanelProps> = ({
+  query,
+  options,
+  hits,
+  activeIndex,
+  error,
+  isIndexing,
+  onQueryChange,
+  onOptionsChange,
+  onHitSelect,
+  onFindNext,
+  onFindPrevious,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const activeResultRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    activeResultRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      if (e.shiftKey) {
+        onFindPrevious();
+      } else {
+        onFindNext();
+      }
+    }
+  };
+
+  const toggleOption = (key: keyof SearchOptions) => (pressed: boolean) => {
+    onOptionsChange({ ...options, [key]: pressed });
+  };
+
+  return (
+    <div className="flex flex-col gap-2 p-2">
+      <Input
+        ref={inputRef}
+        placeholder="Search document..."
+        value={query}
+        onChange={(e) => onQueryChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+      />
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-1">
+          <Toggle size="sm" title="Match case" pressed={options.caseSensitive} onPressedChange={toggleOption('caseSensitive')}>
+            <CaseSensitive className="h-4 w-4" />
+          </Toggle>
+          <Toggle size="sm" title="Whole words" pressed={options.wholeWord} onPressedChange={toggleOption('wholeWord')}>
+            <WholeWord className="h-4 w-4" />
+          </Toggle>
+          <Toggle size="sm" title="Regular expression" pressed={options.regex} onPressedChange={toggleOption('regex')}>
+            <Regex className="h-4 w-4" />
+          </Toggle>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onFindPrevious} disabled={hits.length === 0}>
+            <ChevronUp className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onFindNext} disabled={hits.length === 0}>
+            <ChevronDown className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <p className={cn('text-xs', error ? 'text-destructive' : 'text-muted-foreground')}>
+        {error
+          ? error
+          : query
+            ? `${hits.length === 0 ? 'No' : `${activeIndex + 1} of ${hits.length}${hits.length >= MAX_SEARCH_HITS ? '+' : ''}`} results${isIndexing ? ' (still indexing pages...)' : ''}`
+            : isIndexing
+              ? 'Indexing pages...'
+              : 'Enter to go to the next result, Shift+Enter for the previous one.'}
+      </p>
+
+      <div className="flex flex-col gap-1">
+        {hits.map((hit, index) => (
+          <button
+            key={`${hit.pageNumber}-${hit.start}`}
+            ref={index === activeIndex ? activeResultRef : undefined}
+            type="button"
+            onClick={() => onHitSelect(index)}
+            className={cn(
+              'rounded-md p-2 text-left text-xs hover:bg-sidebar-accent',
+              index === activeIndex && 'bg-sidebar-accent'
+            )}
+          >
+            <span className="block font-medium text-muted-foreground mb-1">Page {hit.pageNumber}</span>
+            <span className="line-clamp-2">
+              {hit.snippet.before}
+              <mark className="bg-yellow-200">{hit.snippet.match}</mark>
+              {hit.snippet.after}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PDFSearchPanel;
@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { BookA, Languages, LayoutTemplate, Lightbulb, MessageCircleQuestion, TextQuote } from 'lucide-react';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuLabel,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from '@/components/ui/context-menu';
+import { SelectionAction, TextSelection } from '@/lib/prompts';
+
+interface PDFSelectionMenuProps {
+  // The element holding the pages; only selections inside it get the menu
+  containerRef: React.RefObject<HTMLElement>;
+  onAction: (action: SelectionAction, selection: TextSelection) => void;
+  children: React.ReactElement;
+}
+
+const ACTIONS: Array<{ action: SelectionAction, label: string, icon: React.ElementType }> = [
+  { action: 'explain', label: 'Explain', icon: Lightbulb },
+  { action: 'define', label: 'Define', icon: BookA },
+  { action: 'summarize', label: 'Summarize', icon: TextQuote },
+  { action: 'translate', label: 'Translate', icon: Languages },
+  { action: 'ask', label: 'Ask…', icon: MessageCircleQuestion },
+  { action: 'template', label: 'Run a template…', icon: LayoutTemplate },
+];
+
+const PREVIEW_LENGTH = 40;
+
+// Reads the current selection when it lies within a single page of the container
+const readSelection = (container: HTMLElement | null): TextSelection | null => {
+  const selection = window.getSelection();
+  const text = selection?.toString().replace(/\s+/g, ' ').trim();
+  if (!selection || !text || selection.rangeCount === 0 || !container) return null;
+
+  const range = selection.getRangeAt(0);
+  const startElement = range.startContainer instanceof Element ? range.startContainer : range.startContainer.parentElement;
+  const page = startElement?.closest<HTMLElement>('.pdf-page[data-page-number]');
+  if (!page || !container.contains(page)) return null;
+
+  return { text, pageNumber: Number(page.dataset.pageNumber) };
+};
+
+// Right-click menu for text selected in the document. Without a selection the
+// browser's own context menu is left alone.
+const PDFSelectionMenu: React.FC<PDFSelectionMenuProps> = ({ containerRef, onAction, children }) => {
+  const [selection, setSelection] = useState<TextSelection | null>(null);
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+
+  useEffect(() => {
+    const handleSelectionChange = () => {
+      // Focus moving into the open menu must not drop the selection it acts on
+      if (!isOpen) setSelection(readSelection(containerRef.current));
+    };
+
+    document.addEventListener('selectionchange', handleSelectionChange);
+    return () => document.removeEventListener('selectionchange', handleSelectionChange);
+  }, [containerRef, isOpen]);
+
+  const preview = selection && selection.text.length > PREVIEW_LENGTH
+    ? `${selection.text.slice(0, PREVIEW_LENGTH)}…`
+    : selection?.text;
+
+  return (
+    <ContextMenu onOpenChange={setIsOpen}>
+      <ContextMenuTrigger asChild disabled={!selection}>
+        {children}
+      </ContextMenuTrigger>
+      <ContextMenuContent className="w-56">
+        {selection && (
+          <>
+            <ContextMenuLabel className="text-xs font-normal text-muted-foreground truncate">
+              “{preview}” · p. {selection.pageNumber}
+            </ContextMenuLabel>
+            <ContextMenuSeparator />
+            {ACTIONS.map(({ action, label, icon: Icon }) => (
+              <ContextMenuItem key={action} onSelect={() => onAction(action, selection)}>
+                <Icon className="h-4 w-4 mr-2" />
+                {label}
+              </ContextMenuItem>
+            ))}
+          </>
+        )}
+      </ContextMenuContent>
+    </ContextMenu>
+  );
+};
+
+export default PDFSelectionMenu;
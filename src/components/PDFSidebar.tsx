@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { PDFDocumentProxy } from 'pdfjs-dist';
+import { RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Sidebar, SidebarContent, SidebarHeader } from '@/components/ui/sidebar';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { hasAnnotations } from '@/lib/annotations';
+import { DocumentAnnotations } from '@/lib/annotation-store';
+import { isIdentityPageOrder, movePage } from '@/lib/page-layout';
+import { ResolvedDestination } from '@/lib/pdf-outline';
+import PDFThumbnail from './PDFThumbnail';
+import PDFOutline from './PDFOutline';
+
+interface PDFSidebarProps {
+  pdfDocument: PDFDocumentProxy | null;
+  pageOrder: number[];
+  currentPage: number;
+  annotations: DocumentAnnotations;
+  onPageSelect: (pageNumber: number) => void;
+  onPageOrderChange: (pageOrder: number[]) => void;
+  onNavigate: (destination: ResolvedDestination) => void;
+  activeTab: string;
+  onActiveTabChange: (tab: string) => void;
+  searchPanel: React.ReactNode;
+}
+
+const PDFSidebar: React.FC<PDFSidebarProps> = ({
+  pdfDocument,
+  pageOrder,
+  currentPage,
+  annotations,
+  onPageSelect,
+  onPageOrderChange,
+  onNavigate,
+  activeTab,
+  onActiveTabChange,
+  searchPanel,
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) {
+      onPageOrderChange(movePage(pageOrder, dragIndex, index));
+    }
+    setDragIndex(null);
+    setDragOverIndex(null);
+  };
+
+  return (
+    <Sidebar>
+      <Tabs value={activeTab} onValueChange={onActiveTabChange} className="flex flex-col flex-1 min-h-0">
+        <SidebarHeader className="border-b">
+          <TabsList className="w-full">
+            <TabsTrigger value="pages" className="flex-1">Pages</TabsTrigger>
+            <TabsTrigger value="outline" className="flex-1">Outline</TabsTrigger>
+            <TabsTrigger value="search" className="flex-1">Search</TabsTrigger>
+          </TabsList>
+          {activeTab === 'pages' && !isIdentityPageOrder(pageOrder) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onPageOrderChange([...pageOrder].sort((a, b) => a - b))}
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Reset order
+            </Button>
+          )}
+        </SidebarHeader>
+        <SidebarContent>
+          <TabsContent value="search" className="mt-0">
+            {pdfDocument ? (
+              searchPanel
+            ) : (
+              <p className="p-4 text-sm text-muted-foreground">Open a PDF to search it.</p>
+            )}
+          </TabsContent>
+          <TabsContent value="outline" className="mt-0">
+            {pdfDocument ? (
+              <PDFOutline pdfDocument={pdfDocument} onNavigate={onNavigate} />
+            ) : (
+              <p className="p-4 text-sm text-muted-foreground">Open a PDF to see its outline.</p>
+            )}
+          </TabsContent>
+          <TabsContent value="pages" className="mt-0">
+            {pdfDocument ? (
+              <div className="flex flex-col items-center gap-1 p-2">
+                {pageOrder.map((pageNumber, index) => (
+                  <PDFThumbnail
+                    key={pageNumber}
+                    pdfDocument={pdfDocument}
+                    pageNumber={pageNumber}
+                    isCurrent={pageNumber === currentPage}
+                    hasAnnotations={hasAnnotations(annotations[pageNumber])}
+                    isDragOver={dragOverIndex === index && dragIndex !== index}
+                    onClick={() => onPageSelect(pageNumber)}
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = 'move';
+                      setDragIndex(index);
+                    }}
+                    onDragOver={(e) => {
+                      e.preventDefault();
+                      setDragOverIndex(index);
+                    }}
+                    onDragLeave={() => setDragOverIndex(prev => (prev === index ? null : prev))}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      handleDrop(index);
+                    }}
+                    onDragEnd={() => {
+                      setDragIndex(null);
+                      setDragOverIndex(null);
+                    }}
+                  />
+                ))}
+              </div>
+            ) : (
+              <p className="p-4 text-sm text-muted-foreground">Open a PDF to see its pages.</p>
+            )}
+          </TabsContent>
+        </SidebarContent>
+      </Tabs>
+    </Sidebar>
+  );
+};
+
+export default PDFSidebar;
@@ -0,0 +1,32 @@
+import React from 'react';
+
+interface PDFSpreadViewProps {
+  pages: number[];
+  // Side a single page is shown on when the spread has only one
+  lonePageSide: 'left' | 'right';
+  renderPage: (pageNumber: number, className?: string) => React.ReactNode;
+}
+
+// Lays out one or two pages side by side around the centre line, like an open book
+const PDFSpreadView: React.FC<PDFSpreadViewProps> = ({ pages, lonePageSide, renderPage }) => {
+  let left: number | null = pages[0];
+  let right: number | null = pages[1] ?? null;
+
+  if (pages.length === 1 && lonePageSide === 'right') {
+    left = null;
+    right = pages[0];
+  }
+
+  return (
+    <div className="flex w-max min-w-full">
+      <div className="flex flex-1 justify-end pr-1">
+        {left !== null && renderPage(left, 'mr-0')}
+      </div>
+      <div className="flex flex-1 justify-start pl-1">
+        {right !== null && renderPage(right, 'ml-0')}
+      </div>
+    </div>
+  );
+};
+
+export default PDFSpreadView;
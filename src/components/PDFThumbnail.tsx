@@ -0,0 +1,134 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PDFDocumentProxy } from 'pdfjs-dist';
+import * as pdfjs from 'pdfjs-dist';
+import { RenderTask } from 'pdfjs-dist/types/src/display/api';
+import { Highlighter } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+// Rendered width of a thumbnail in CSS pixels
+const THUMBNAIL_WIDTH = 120;
+
+interface PDFThumbnailProps {
+  pdfDocument: PDFDocumentProxy;
+  pageNumber: number;
+  isCurrent: boolean;
+  hasAnnotations: boolean;
+  isDragOver: boolean;
+  onClick: () => void;
+  onDragStart: (e: React.DragEvent<HTMLButtonElement>) => void;
+  onDragOver: (e: React.DragEvent<HTMLButtonElement>) => void;
+  onDragLeave: () => void;
+  onDrop: (e: React.DragEvent<HTMLButtonElement>) => void;
+  onDragEnd: () => void;
+}
+
+const PDFThumbnail: React.FC<PDFThumbnailProps> = ({
+  pdfDocument,
+  pageNumber,
+  isCurrent,
+  hasAnnotations,
+  isDragOver,
+  onClick,
+  ...dragHandlers
+}) => {
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const [isRendered, setIsRendered] = useState(false);
+
+  // Only render once the thumbnail scrolls into (or near) view
+  useEffect(() => {
+    const element = buttonRef.current;
+    if (!element || isVisible) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          setIsVisible(true);
+        }
+      },
+      { rootMargin: '200px 0px' }
+    );
+    observer.observe(element);
+
+    return () => observer.disconnect();
+  }, [isVisible]);
+
+  useEffect(() => {
+    if (!isVisible || !canvasRef.current) return;
+
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+
+    const renderThumbnail = async () => {
+      try {
+        const page = await pdfDocument.getPage(pageNumber);
+        if (cancelled) return;
+
+        const unscaled = page.getViewport({ scale: 1 });
+        const viewport = page.getViewport({ scale: THUMBNAIL_WIDTH / unscaled.width });
+        const canvas = canvasRef.current!;
+        canvas.width = viewport.width;
+        canvas.height = viewport.height;
+
+        renderTask = page.render({ canvasContext: canvas.getContext('2d')!, viewport });
+        await renderTask.promise;
+        if (!cancelled) setIsRendered(true);
+      } catch (error) {
+        if (cancelled || error instanceof pdfjs.RenderingCancelledException) return;
+        console.error('Error rendering thumbnail:', error);
+      }
+    };
+
+    renderThumbnail();
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdfDocument, pageNumber, isVisible]);
+
+  useEffect(() => {
+    if (isCurrent) {
+      buttonRef.current?.scrollIntoView({ block: 'nearest' });
+    }
+  }, [isCurrent]);
+
+  return (
+    <button
+      ref={buttonRef}
+      type="button"
+      draggable
+      onClick={onClick}
+      {...dragHandlers}
+      className={cn(
+        'relative flex flex-col items-center gap-1 rounded-md p-2 transition-colors hover:bg-sidebar-accent',
+        isCurrent && 'bg-sidebar-accent',
+        isDragOver && 'ring-2 ring-pdf-primary'
+      )}
+    >
+      <div
+        className={cn(
+          'relative bg-white shadow-sm border',
+          isCurrent ? 'border-pdf-primary ring-2 ring-pdf-primary' : 'border-gray-200'
+        )}
+        style={{ width: THUMBNAIL_WIDTH, minHeight: isRendered ? undefined : THUMBNAIL_WIDTH * 1.3 }}
+      >
+        <canvas ref={canvasRef} className="block w-full" />
+        {hasAnnotations && (
+          <span
+            className="absolute top-1 right-1 rounded-full bg-pdf-primary p-1 text-white"
+            title="This page has annotations"
+          >
+            <Highlighter className="h-3 w-3" />
+          </span>
+        )}
+      </div>
+      <span className={cn('text-xs', isCurrent ? 'font-medium text-pdf-primary' : 'text-muted-foreground')}>
+        {pageNumber}
+      </span>
+    </button>
+  );
+};
+
+export default PDFThumbnail;
@@ -0,0 +1,187 @@
+import React, { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { PDFDocumentProxy } from 'pdfjs-dist';
+import { Languages, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { useAISettings } from '@/hooks/use-ai-settings';
+import { PageParagraphs, extractPageParagraphs } from '@/lib/pdf-text';
+import { translateParagraphs } from '@/lib/translate';
+import { cn } from '@/lib/utils';
+import LanguageSelect from './LanguageSelect';
+
+// Pause after the page changes before translating, so paging quickly through
+// the document does not send a request for every page passed
+const TRANSLATE_DELAY = 400;
+
+interface PDFTranslationViewProps {
+  pdfDocument: PDFDocumentProxy;
+  pageNumber: number;
+  languageCode: string;
+  onLanguageChange: (code: string) => void;
+  onClose: () => void;
+  // The scrolling element holding the rendered pages, followed paragraph by paragraph
+  scrollContainerRef: React.RefObject<HTMLDivElement>;
+}
+
+// Maps y through a piecewise-linear function given by matching anchor points
+const interpolate = (from: number[], to: number[], y: number) => {
+  let index = 0;
+  while (index < from.length - 2 && from[index + 1] <= y) index++;
+  const span = from[index + 1] - from[index];
+  const fraction = span > 0 ? Math.min(Math.max((y - from[index]) / span, 0), 1) : 0;
+  return to[index] + fraction * (to[index + 1] - to[index]);
+};
+
+// The current page's text translated paragraph by paragraph, shown next to
+// the page. Its scroll position follows the document, so the paragraph at the
+// top of the page view is also at the top here.
+const PDFTranslationView: React.FC<PDFTranslationViewProps> = ({
+  pdfDocument,
+  pageNumber,
+  languageCode,
+  onLanguageChange,
+  onClose,
+  scrollContainerRef,
+}) => {
+  const [page, setPage] = useState<PageParagraphs | null>(null);
+  const [translations, setTranslations] = useState<Array<string | undefined>>([]);
+  const [isTranslating, setIsTranslating] = useState<boolean>(false);
+  const { provider } = useAISettings();
+  const { toast } = useToast();
+  const paneRef = useRef<HTMLDivElement>(null);
+  // Finished translations by page and language, kept while the document is open
+  const cacheRef = useRef<Map<string, string[]>>(new Map());
+
+  useEffect(() => {
+    cacheRef.current.clear();
+  }, [pdfDocument]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPage(null);
+
+    extractPageParagraphs(pdfDocument, pageNumber)
+      .then((result) => {
+        if (!cancelled) setPage(result);
+      })
+      .catch((error) => {
+        console.error(`Error reading the paragraphs of page ${pageNumber}:`, error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdfDocument, pageNumber]);
+
+  useEffect(() => {
+    if (!page) return;
+
+    const key = `${pageNumber}:${languageCode}`;
+    const cached = cacheRef.current.get(key);
+    setTranslations(cached ?? []);
+    if (cached || page.paragraphs.length === 0) return;
+
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      setIsTranslating(true);
+      try {
+        const result = await translateParagraphs({
+          provider,
+          paragraphs: page.paragraphs.map(paragraph => paragraph.text),
+          languageCode,
+          signal: controller.signal,
+          onProgress: (partial) => {
+            if (!controller.signal.aborted) setTranslations(partial);
+          },
+        });
+        cacheRef.current.set(key, result);
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Error translating page:', error);
+          toast({
+            title: 'Error',
+            description: error instanceof Error ? error.message : 'The page could not be translated.',
+            variant: 'destructive',
+          });
+        }
+      } finally {
+        if (!controller.signal.aborted) setIsTranslating(false);
+      }
+    }, TRANSLATE_DELAY);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+      setIsTranslating(false);
+    };
+  }, [page, pageNumber, languageCode, provider, toast]);
+
+  // Lines the pane up with the document: paragraph tops on the page are
+  // matched to paragraph tops in the pane, and positions in between are
+  // interpolated
+  const syncScroll = useCallback(() => {
+    const container = scrollContainerRef.current;
+    const pane = paneRef.current;
+    const pageElement = container?.querySelector<HTMLElement>(`.pdf-page[data-page-number="${pageNumber}"]`);
+    if (!container || !pane || !pageElement || !page) return;
+
+    const pageRect = pageElement.getBoundingClientRect();
+    const ratio = pageRect.height / page.pageHeight;
+    if (!ratio) return;
+    const y = (container.getBoundingClientRect().top - pageRect.top) / ratio;
+
+    const elements = Array.from(pane.querySelectorAll<HTMLElement>('[data-paragraph]'));
+    const from = [0, ...page.paragraphs.map(paragraph => paragraph.top), page.pageHeight];
+    const to = [0, ...elements.map(element => element.offsetTop), pane.scrollHeight];
+    pane.scrollTop = interpolate(from, to, y);
+  }, [scrollContainerRef, pageNumber, page]);
+
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+
+    container.addEventListener('scroll', syncScroll, { passive: true });
+    return () => container.removeEventListener('scroll', syncScroll);
+  }, [scrollContainerRef, syncScroll]);
+
+  // Translations arriving change paragraph heights
+  useLayoutEffect(() => {
+    syncScroll();
+  }, [syncScroll, translations]);
+
+  return (
+    <div className="flex flex-col h-full bg-white">
+      <div className="flex items-center gap-2 border-b p-2">
+        <Languages className="h-4 w-4 text-pdf-primary shrink-0" />
+        <span className="text-sm font-medium shrink-0">Page {pageNumber}</span>
+        <LanguageSelect value={languageCode} onValueChange={onLanguageChange} className="w-40 ml-auto" />
+        <Button variant="ghost" size="icon" title="Close the translation" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div ref={paneRef} className="relative flex-1 min-h-0 overflow-y-auto p-4">
+        {!page ? (
+          <p className="text-sm text-muted-foreground">Reading the page...</p>
+        ) : page.paragraphs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This page has no text to translate.</p>
+        ) : (
+          page.paragraphs.map((paragraph, index) => (
+            <p
+              key={index}
+              data-paragraph
+              className={cn('mb-4 text-sm leading-relaxed', !translations[index] && 'text-muted-foreground')}
+              title={translations[index] ? paragraph.text : undefined}
+            >
+              {translations[index] ?? (
+                <span className={cn(isTranslating && 'animate-pulse')}>{paragraph.text}</span>
+              )}
+            </p>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PDFTranslationView;
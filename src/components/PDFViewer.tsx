@@ -1,10 +1,13 @@
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Separator } from '@/components/ui/separator';
 import { Input } from '@/components/ui/input';
 import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SidebarInset, SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar';
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
 import * as pdfjs from 'pdfjs-dist';
 import { PDFDocumentProxy } from 'pdfjs-dist';
 import { 
@@ -18,11 +21,50 @@ import {
   ZoomOut,
   BookOpen,
   MessageSquare,
-  Mic
+  Mic,
+  Download,
+  Eraser,
+  FileText,
+  ScrollText,
+  Columns2,
+  BookOpenText,
+  GitCompare,
+  Search
 } from 'lucide-react';
 import PDFPage from './PDFPage';
+import PDFContinuousView from './PDFContinuousView';
+import PDFSpreadView from './PDFSpreadView';
+import PDFSidebar from './PDFSidebar';
+import PDFSearchPanel from './PDFSearchPanel';
 import AIAssistant from './AIAssistant';
+import PDFSelectionMenu from './PDFSelectionMenu';
+import PDFTranslationView from './PDFTranslationView';
+import PDFCompareView from './PDFCompareView';
+import PDFPixelDiffOverlay from './PDFPixelDiffOverlay';
 import { useToast } from '@/components/ui/use-toast';
+import { useAnnotationStore } from '@/hooks/use-annotation-store';
+import { useFitScale } from '@/hooks/use-fit-scale';
+import { useDocumentText } from '@/hooks/use-document-text';
+import { useDocumentSearch } from '@/hooks/use-document-search';
+import { useDocumentList } from '@/hooks/use-document-list';
+import { useDocumentComparison } from '@/hooks/use-document-comparison';
+import { useDocumentIndex } from '@/hooks/use-document-index';
+import { downloadPdf, exportAnnotatedPdf } from '@/lib/pdf-export';
+import { ResolvedDestination } from '@/lib/pdf-outline';
+import { Citation } from '@/lib/citations';
+import { SelectionAction, TextSelection } from '@/lib/prompts';
+import { glossaryStore } from '@/lib/glossary-store';
+import {
+  MAX_SCALE,
+  MIN_SCALE,
+  ViewMode,
+  ZoomMode,
+  clampScale,
+  getLonePageSide,
+  getSpreadPages,
+  identityPageOrder,
+  isSpreadMode,
+} from '@/lib/page-layout';
 
 // Set up PDF.js worker
 pdfjs.GlobalWorkerOptions.workerSrc = `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjs.version}/pdf.worker.min.js`;
@@ -33,26 +75,74 @@ interface PDFViewerProps {
 
 const PDFViewer: React.FC<PDFViewerProps> = ({ onPageRender }) => {
   const [pdfDocument, setPdfDocument] = useState<PDFDocumentProxy | null>(null);
+  const [fileName, setFileName] = useState<string>('');
+  const [isExporting, setIsExporting] = useState<boolean>(false);
   const [totalPages, setTotalPages] = useState<number>(0);
   const [currentPage, setCurrentPage] = useState<number>(1);
+  const [pageOrder, setPageOrder] = useState<number[]>([]);
   const [scale, setScale] = useState<number>(1.5);
+  const [viewMode, setViewMode] = useState<ViewMode>('single');
+  const [zoomMode, setZoomMode] = useState<ZoomMode>('custom');
   const [activeTab, setActiveTab] = useState<string>('view');
   const [activeTool, setActiveTool] = useState<string>('');
   const [highlightColor, setHighlightColor] = useState<string>('#FEF7CD');
   const [isAIOpen, setIsAIOpen] = useState<boolean>(false);
   const [pageTexts, setPageTexts] = useState<Record<number, string>>({});
+  const [isSidebarOpen, setIsSidebarOpen] = useState<boolean>(false);
+  const [sidebarTab, setSidebarTab] = useState<string>('pages');
+  const [citationFlash, setCitationFlash] = useState<(Citation & { id: number }) | null>(null);
+  // Target language of the side-by-side translation, null while it is closed
+  const [sideBySideLanguage, setSideBySideLanguage] = useState<string | null>(null);
+  // Whether glossary terms are underlined in the pages
+  const [isGlossaryShown, setIsGlossaryShown] = useState<boolean>(true);
+  // Another version of the document, open next to it for comparison
+  const [revisionDocument, setRevisionDocument] = useState<PDFDocumentProxy | null>(null);
+  const [revisionFileName, setRevisionFileName] = useState<string>('');
+  const [isPixelDiffShown, setIsPixelDiffShown] = useState<boolean>(false);
+  const [selectionRequest, setSelectionRequest] = useState<(TextSelection & { action: SelectionAction, id: number }) | null>(null);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const revisionInputRef = useRef<HTMLInputElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Where to scroll once the target page has been laid out, in viewport pixels
+  const pendingScrollRef = useRef<{ pageNumber: number, height: number, x: number | null, y: number | null } | null>(null);
   const { toast } = useToast();
+  const { annotations, getPageAnnotations, updatePageAnnotations } = useAnnotationStore(pdfDocument);
+  const { pageTexts: documentTexts, isComplete: isTextComplete } = useDocumentText(pdfDocument);
+  const search = useDocumentSearch(documentTexts, pageOrder);
+  const { retrieve, indexedPageCount } = useDocumentIndex(pdfDocument, documentTexts);
+  const documentId = pdfDocument?.fingerprints[0] ?? null;
+  const { items: glossary, updateItems: updateGlossary } = useDocumentList(glossaryStore, documentId);
+  const comparison = useDocumentComparison(documentTexts, isTextComplete, totalPages, revisionDocument);
   
+  // A replaced or closed document is released from the pdf.js worker
+  useEffect(() => {
+    if (!pdfDocument) return;
+    return () => {
+      pdfDocument.destroy();
+    };
+  }, [pdfDocument]);
+
+  useEffect(() => {
+    if (!revisionDocument) return;
+    return () => {
+      revisionDocument.destroy();
+    };
+  }, [revisionDocument]);
+
   const loadPDF = async (file: File) => {
     try {
       const arrayBuffer = await file.arrayBuffer();
       const pdf = await pdfjs.getDocument({ data: arrayBuffer }).promise;
       
       setPdfDocument(pdf);
+      setFileName(file.name);
       setTotalPages(pdf.numPages);
+      setPageOrder(identityPageOrder(pdf.numPages));
       setCurrentPage(1);
+      setPageTexts({});
+      setRevisionDocument(null);
+      pendingScrollRef.current = null;
       toast({
         title: "PDF Loaded",
         description: `Successfully loaded "${file.name}" (${pdf.numPages} pages)`,
@@ -74,241 +164,663 @@ const PDFViewer: React.FC<PDFViewerProps> = ({ onPageRender }) => {
     }
   };
 
+  const loadRevision = async (file: File) => {
+    try {
+      const arrayBuffer = await file.arrayBuffer();
+      const pdf = await pdfjs.getDocument({ data: arrayBuffer }).promise;
+
+      setRevisionDocument(pdf);
+      setRevisionFileName(file.name);
+      // The comparison takes the side pane
+      setSideBySideLanguage(null);
+    } catch (error) {
+      console.error("Error loading PDF to compare:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load the PDF to compare with. Please try another file.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRevisionFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      loadRevision(file);
+    }
+    // Choosing the same file again after closing the comparison reopens it
+    e.target.value = '';
+  };
+
+  const handleOpenSideBySide = (languageCode: string) => {
+    setRevisionDocument(null);
+    setSideBySideLanguage(languageCode);
+  };
+
+  const handleExportPDF = async () => {
+    if (!pdfDocument) return;
+    
+    setIsExporting(true);
+    try {
+      const data = await pdfDocument.getData();
+      const bytes = await exportAnnotatedPdf(data, annotations, pageOrder);
+      const baseName = fileName.replace(/\.pdf$/i, '') || 'document';
+      downloadPdf(bytes, `${baseName}-annotated.pdf`);
+    } catch (error) {
+      console.error("Error exporting PDF:", error);
+      toast({
+        title: "Error",
+        description: "Failed to export the annotated PDF.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const goToPage = (pageNum: number) => {
     if (pageNum >= 1 && pageNum <= totalPages) {
       setCurrentPage(pageNum);
     }
   };
 
-  const handlePreviousPage = () => goToPage(currentPage - 1);
-  const handleNextPage = () => goToPage(currentPage + 1);
+  // Scrolls to the pending scroll target if its page is laid out at its
+  // rendered size; a page that was just switched to has no size until then
+  const applyPendingScroll = useCallback(() => {
+    const target = pendingScrollRef.current;
+    const container = containerRef.current;
+    const slot = target && container?.querySelector<HTMLElement>(`[data-page-number="${target.pageNumber}"]`);
+    const pageElement = slot?.classList.contains('pdf-page') ? slot : slot?.querySelector<HTMLElement>('.pdf-page');
+    if (!target || !container || !pageElement || Math.abs(pageElement.offsetHeight - target.height) > 1) return;
+
+    pendingScrollRef.current = null;
+    const containerRect = container.getBoundingClientRect();
+    const pageRect = pageElement.getBoundingClientRect();
+    if (target.y !== null) {
+      container.scrollTop += pageRect.top - containerRect.top + target.y;
+    }
+    if (target.x !== null) {
+      container.scrollLeft += pageRect.left - containerRect.left + target.x;
+    }
+  }, []);
+
+  // Brings the given PDF-space point of a page to the top-left of the view,
+  // once the page has been laid out
+  const scrollToPdfPoint = async (pageNumber: number, left: number | null, top: number | null) => {
+    if (!pdfDocument || (left === null && top === null)) return;
+
+    const page = await pdfDocument.getPage(pageNumber);
+    const viewport = page.getViewport({ scale });
+    const [x, y] = viewport.convertToViewportPoint(left ?? 0, top ?? viewport.viewBox[3]);
+
+    pendingScrollRef.current = {
+      pageNumber,
+      height: viewport.height,
+      x: left === null ? null : x,
+      y: top === null ? null : y,
+    };
+    // A page already on screen does not render again, so try right away too;
+    // otherwise the page applies it once rendered
+    requestAnimationFrame(applyPendingScroll);
+  };
+
+  const navigateToDestination = (destination: ResolvedDestination) => {
+    goToPage(destination.pageNumber);
+    scrollToPdfPoint(destination.pageNumber, destination.left, destination.top).catch((error) => {
+      console.error('Error scrolling to destination:', error);
+    });
+  };
+
+  const handleSelectionAction = (action: SelectionAction, selection: TextSelection) => {
+    setIsAIOpen(true);
+    setSelectionRequest({ ...selection, action, id: Date.now() });
+  };
+
+  const handleCitationClick = (citation: Citation) => {
+    if (citation.pageNumber < 1 || citation.pageNumber > totalPages) {
+      toast({
+        title: "Citation not found",
+        description: `The document has no page ${citation.pageNumber}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    goToPage(citation.pageNumber);
+    setCitationFlash({ ...citation, id: Date.now() });
+  };
+
+  // The flash is a one-off; clearing it keeps pages that scroll back into
+  // range from replaying it
+  useEffect(() => {
+    if (!citationFlash) return;
+    const timeout = setTimeout(() => setCitationFlash(null), 3000);
+    return () => clearTimeout(timeout);
+  }, [citationFlash]);
+
+  // Navigation follows the page order from the sidebar, which the user can
+  // rearrange; positions are 1-based indexes into that order
+  const pageAt = (position: number) => pageOrder[position - 1] ?? position;
+  const currentPosition = pageOrder.indexOf(currentPage) + 1 || currentPage;
+
+  // In spread layouts the arrows move a whole spread at a time
+  const spreadPositions = getSpreadPages(currentPosition, totalPages, viewMode);
+  const currentSpread = spreadPositions.map(pageAt);
+  const isFirstSpread = spreadPositions[0] <= 1;
+  const isLastSpread = spreadPositions[spreadPositions.length - 1] >= totalPages;
+  const handlePreviousPage = () => goToPage(pageAt(spreadPositions[0] - 1));
+  const handleNextPage = () => goToPage(pageAt(spreadPositions[spreadPositions.length - 1] + 1));
   
-  const handleZoomIn = () => setScale(prev => Math.min(prev + 0.2, 3));
-  const handleZoomOut = () => setScale(prev => Math.max(prev - 0.2, 0.5));
+  useFitScale({
+    pdfDocument,
+    pages: currentSpread,
+    zoomMode,
+    containerRef,
+    onScaleChange: setScale,
+  });
+
+  const setCustomScale = (value: number) => {
+    setZoomMode('custom');
+    setScale(clampScale(value));
+  };
+
+  const handleZoomIn = () => setCustomScale(scale + 0.2);
+  const handleZoomOut = () => setCustomScale(scale - 0.2);
 
-  const handlePageRendered = (pageNumber: number, textContent: string) => {
+  const handlePageRendered = useCallback((pageNumber: number, textContent: string) => {
     setPageTexts(prev => ({ ...prev, [pageNumber]: textContent }));
+    if (pendingScrollRef.current?.pageNumber === pageNumber) {
+      applyPendingScroll();
+    }
     if (onPageRender) {
       onPageRender(pageNumber, textContent);
     }
-  };
+  }, [onPageRender, applyPendingScroll]);
 
   const getCurrentPageText = () => {
-    return pageTexts[currentPage] || '';
+    return pageTexts[currentPage] || documentTexts[currentPage] || '';
   };
 
+  const openSearch = useCallback(() => {
+    setIsSidebarOpen(true);
+    setSidebarTab('search');
+  }, []);
+
+  // Ctrl/Cmd+F opens the document search instead of the browser's find bar,
+  // which cannot see pages that are not rendered
+  useEffect(() => {
+    if (!pdfDocument) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'f') {
+        e.preventDefault();
+        openSearch();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [pdfDocument, openSearch]);
+
+  const { activeHit } = search;
+  const shownHitRef = useRef<string | null>(null);
+
+  // Moving to another match shows its page; PDFPage scrolls the match into view.
+  // Hits are recomputed as text comes in, so compare by position, not identity.
+  useEffect(() => {
+    const key = activeHit ? `${activeHit.pageNumber}-${activeHit.start}` : null;
+    if (key === shownHitRef.current) return;
+    shownHitRef.current = key;
+    if (activeHit) {
+      setCurrentPage(activeHit.pageNumber);
+    }
+  }, [activeHit]);
+
+  const hitsByPage = useMemo(() => {
+    const byPage: Record<number, Array<{ start: number, end: number }>> = {};
+    search.hits.forEach((hit) => {
+      (byPage[hit.pageNumber] ??= []).push({ start: hit.start, end: hit.end });
+    });
+    return byPage;
+  }, [search.hits]);
+
+  const renderPage = (pageNumber: number, className?: string) => (
+    <PDFPage
+      key={pageNumber}
+      className={className}
+      pdfDocument={pdfDocument!}
+      pageNumber={pageNumber}
+      scale={scale}
+      activeTool={activeTool}
+      highlightColor={highlightColor}
+      annotations={getPageAnnotations(pageNumber)}
+      onAnnotationsChange={(updater) => updatePageAnnotations(pageNumber, updater)}
+      onPageRendered={handlePageRendered}
+      searchHits={hitsByPage[pageNumber]}
+      activeSearchHit={activeHit?.pageNumber === pageNumber ? activeHit : null}
+      flash={citationFlash?.pageNumber === pageNumber ? citationFlash : null}
+      glossary={isGlossaryShown ? glossary : undefined}
+      diffHits={comparison.originalHits[pageNumber]}
+      overlay={isPixelDiffShown && revisionDocument && comparison.byOriginalPage[pageNumber]?.right ? (
+        <PDFPixelDiffOverlay
+          originalDocument={pdfDocument!}
+          originalPage={pageNumber}
+          revisionDocument={revisionDocument}
+          revisionPage={comparison.byOriginalPage[pageNumber].right!}
+          scale={scale}
+        />
+      ) : null}
+    />
+  );
+
   const handleToggleAI = () => {
     setIsAIOpen(!isAIOpen);
+    setSelectionRequest(null);
   };
 
   return (
-    <div className="flex flex-col h-screen">
-      <div className="bg-white border-b p-4 flex items-center justify-between">
-        <div className="flex items-center gap-2">
-          <BookOpen className="h-6 w-6 text-pdf-primary" />
-          <h1 className="text-xl font-bold text-pdf-dark">PDF Reader</h1>
-        </div>
-        
-        <div className="flex items-center gap-4">
-          <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
-            Open PDF
-          </Button>
-          <input 
-            ref={fileInputRef}
-            type="file" 
-            accept=".pdf" 
-            onChange={handleFileChange} 
-            className="hidden"
+    <SidebarProvider open={isSidebarOpen} onOpenChange={setIsSidebarOpen}>
+      <PDFSidebar
+        pdfDocument={pdfDocument}
+        pageOrder={pageOrder}
+        currentPage={currentPage}
+        annotations={annotations}
+        onPageSelect={goToPage}
+        onPageOrderChange={setPageOrder}
+        onNavigate={navigateToDestination}
+        activeTab={sidebarTab}
+        onActiveTabChange={setSidebarTab}
+        searchPanel={
+          <PDFSearchPanel
+            query={search.query}
+            options={search.options}
+            hits={search.hits}
+            activeIndex={search.activeIndex}
+            error={search.error}
+            isIndexing={!!pdfDocument && !isTextComplete}
+            onQueryChange={search.setQuery}
+            onOptionsChange={search.setOptions}
+            onHitSelect={search.setActiveIndex}
+            onFindNext={search.findNext}
+            onFindPrevious={search.findPrevious}
           />
+        }
+      />
+      <SidebarInset className="flex flex-col h-screen min-h-0 overflow-hidden">
+        <div className="bg-white border-b p-4 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <SidebarTrigger />
+            <BookOpen className="h-6 w-6 text-pdf-primary" />
+            <h1 className="text-xl font-bold text-pdf-dark">PDF Reader</h1>
+          </div>
+        
+          <div className="flex items-center gap-4">
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+              Open PDF
+            </Button>
+            <input 
+              ref={fileInputRef}
+              type="file" 
+              accept=".pdf" 
+              onChange={handleFileChange} 
+              className="hidden"
+            />
 
-          <Button 
-            variant="ghost" 
-            size="icon" 
-            onClick={handleToggleAI}
-            className={isAIOpen ? "bg-pdf-primary text-white" : ""}
-          >
-            <MessageSquare className="h-5 w-5" />
-          </Button>
-        </div>
-      </div>
-
-      <div className="flex flex-1 overflow-hidden">
-        <div className={`flex flex-col flex-1 ${isAIOpen ? 'w-2/3' : 'w-full'}`}>
-          <div className="bg-white p-2 border-b flex items-center justify-between">
-            <Tabs 
-              value={activeTab} 
-              onValueChange={setActiveTab} 
-              className="w-full"
+            <Button 
+              variant="ghost" 
+              size="icon" 
+              title="Compare with another version"
+              className={revisionDocument ? "bg-pdf-primary text-white" : ""}
+              onClick={() => revisionInputRef.current?.click()}
+              disabled={!pdfDocument}
             >
-              <TabsList>
-                <TabsTrigger value="view">View</TabsTrigger>
-                <TabsTrigger value="annotate">Annotate</TabsTrigger>
-                <TabsTrigger value="edit">Edit</TabsTrigger>
-              </TabsList>
-
-              <TabsContent value="view" className="flex items-center justify-between gap-2 mt-2">
-                <div className="flex items-center gap-2">
-                  <Button variant="outline" size="sm" onClick={handlePreviousPage} disabled={currentPage <= 1}>
-                    <ArrowLeft className="h-4 w-4" />
-                  </Button>
-                  <div className="flex items-center gap-1">
-                    <Input 
-                      type="number" 
-                      value={currentPage}
-                      onChange={(e) => goToPage(parseInt(e.target.value) || 1)}
-                      className="w-16 text-center"
-                      min={1}
-                      max={totalPages}
-                    />
-                    <span className="text-sm text-muted-foreground">/ {totalPages || 0}</span>
+              <GitCompare className="h-5 w-5" />
+            </Button>
+            <input 
+              ref={revisionInputRef}
+              type="file" 
+              accept=".pdf" 
+              onChange={handleRevisionFileChange} 
+              className="hidden"
+            />
+
+            <Button 
+              variant="ghost" 
+              size="icon" 
+              title="Search (Ctrl+F)"
+              onClick={openSearch}
+              disabled={!pdfDocument}
+            >
+              <Search className="h-5 w-5" />
+            </Button>
+
+            <Button 
+              variant="outline" 
+              onClick={handleExportPDF}
+              disabled={!pdfDocument || isExporting}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              {isExporting ? 'Exporting...' : 'Export annotated PDF'}
+            </Button>
+
+            <Button 
+              variant="ghost" 
+              size="icon" 
+              onClick={handleToggleAI}
+              className={isAIOpen ? "bg-pdf-primary text-white" : ""}
+            >
+              <MessageSquare className="h-5 w-5" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-1 overflow-hidden">
+          <div className={`flex flex-col flex-1 ${isAIOpen ? 'w-2/3' : 'w-full'}`}>
+            <div className="bg-white p-2 border-b flex items-center justify-between">
+              <Tabs 
+                value={activeTab} 
+                onValueChange={setActiveTab} 
+                className="w-full"
+              >
+                <TabsList>
+                  <TabsTrigger value="view">View</TabsTrigger>
+                  <TabsTrigger value="annotate">Annotate</TabsTrigger>
+                  <TabsTrigger value="edit">Edit</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="view" className="flex items-center justify-between gap-2 mt-2">
+                  <div className="flex items-center gap-2">
+                    <Button variant="outline" size="sm" onClick={handlePreviousPage} disabled={isFirstSpread}>
+                      <ArrowLeft className="h-4 w-4" />
+                    </Button>
+                    <div className="flex items-center gap-1">
+                      <Input 
+                        type="number" 
+                        value={currentPage}
+                        onChange={(e) => goToPage(parseInt(e.target.value) || 1)}
+                        className="w-16 text-center"
+                        min={1}
+                        max={totalPages}
+                      />
+                      <span className="text-sm text-muted-foreground">/ {totalPages || 0}</span>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={handleNextPage} disabled={isLastSpread}>
+                      <ArrowRight className="h-4 w-4" />
+                    </Button>
+
+                    <Separator orientation="vertical" className="h-6" />
+
+                    <Button 
+                      variant="outline" 
+                      size="icon"
+                      title="Single page"
+                      className={viewMode === 'single' ? 'bg-pdf-primary text-white' : ''}
+                      onClick={() => setViewMode('single')}
+                    >
+                      <FileText className="h-4 w-4" />
+                    </Button>
+                    <Button 
+                      variant="outline" 
+                      size="icon"
+                      title="Continuous scrolling"
+                      className={viewMode === 'continuous' ? 'bg-pdf-primary text-white' : ''}
+                      onClick={() => setViewMode('continuous')}
+                    >
+                      <ScrollText className="h-4 w-4" />
+                    </Button>
+                    <Button 
+                      variant="outline" 
+                      size="icon"
+                      title="Two-page spread"
+                      className={viewMode === 'spread' ? 'bg-pdf-primary text-white' : ''}
+                      onClick={() => setViewMode('spread')}
+                    >
+                      <Columns2 className="h-4 w-4" />
+                    </Button>
+                    <Button 
+                      variant="outline" 
+                      size="icon"
+                      title="Book (cover + spreads)"
+                      className={viewMode === 'book' ? 'bg-pdf-primary text-white' : ''}
+                      onClick={() => setViewMode('book')}
+                    >
+                      <BookOpenText className="h-4 w-4" />
+                    </Button>
                   </div>
-                  <Button variant="outline" size="sm" onClick={handleNextPage} disabled={currentPage >= totalPages}>
-                    <ArrowRight className="h-4 w-4" />
-                  </Button>
-                </div>
 
-                <div className="flex items-center gap-4">
-                  <Button variant="outline" size="icon" onClick={handleZoomOut}>
-                    <ZoomOut className="h-4 w-4" />
-                  </Button>
-                  <div className="w-32">
-                    <Slider 
-                      value={[scale * 100]} 
-                      min={50} 
-                      max={300} 
-                      step={10} 
-                      onValueChange={([value]) => setScale(value / 100)}
+                  <div className="flex items-center gap-4">
+                    <Button variant="outline" size="icon" onClick={handleZoomOut}>
+                      <ZoomOut className="h-4 w-4" />
+                    </Button>
+                    <div className="w-32">
+                      <Slider 
+                        value={[scale * 100]} 
+                        min={MIN_SCALE * 100} 
+                        max={MAX_SCALE * 100} 
+                        step={5} 
+                        onValueChange={([value]) => setCustomScale(value / 100)}
+                      />
+                    </div>
+                    <Button variant="outline" size="icon" onClick={handleZoomIn}>
+                      <ZoomIn className="h-4 w-4" />
+                    </Button>
+                    <Select value={zoomMode} onValueChange={(value) => setZoomMode(value as ZoomMode)}>
+                      <SelectTrigger className="w-32 h-9">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="custom">{Math.round(scale * 100)}%</SelectItem>
+                        <SelectItem value="fit-width">Fit width</SelectItem>
+                        <SelectItem value="fit-page">Fit page</SelectItem>
+                        <SelectItem value="auto">Automatic</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <span className="text-sm w-14 text-right">{Math.round(scale * 100)}%</span>
+                  </div>
+                </TabsContent>
+
+                <TabsContent value="annotate" className="flex items-center gap-2 mt-2">
+                  <div className="flex items-center gap-2">
+                    <Button 
+                      variant="outline" 
+                      size="sm"
+                      className={activeTool === 'highlight' ? 'bg-pdf-primary text-white' : ''}
+                      onClick={() => setActiveTool(activeTool === 'highlight' ? '' : 'highlight')}
+                    >
+                      <Highlighter className="h-4 w-4 mr-2" />
+                      Highlight
+                    </Button>
+                    <Button 
+                      variant="outline" 
+                      size="sm"
+                      className={activeTool === 'pen' ? 'bg-pdf-primary text-white' : ''}
+                      onClick={() => setActiveTool(activeTool === 'pen' ? '' : 'pen')}
+                    >
+                      <Pencil className="h-4 w-4 mr-2" />
+                      Draw
+                    </Button>
+                    <Button 
+                      variant="outline" 
+                      size="sm"
+                      className={activeTool === 'erase' ? 'bg-pdf-primary text-white' : ''}
+                      onClick={() => setActiveTool(activeTool === 'erase' ? '' : 'erase')}
+                    >
+                      <Eraser className="h-4 w-4 mr-2" />
+                      Erase
+                    </Button>
+                  </div>
+                
+                  <Separator orientation="vertical" className="h-6" />
+                
+                  <div className="flex items-center gap-1">
+                    <div 
+                      className={`w-5 h-5 rounded-full cursor-pointer ${highlightColor === '#FEF7CD' ? 'ring-2 ring-pdf-primary' : ''}`}
+                      style={{ backgroundColor: '#FEF7CD' }}
+                      onClick={() => setHighlightColor('#FEF7CD')}
+                    />
+                    <div 
+                      className={`w-5 h-5 rounded-full cursor-pointer ${highlightColor === '#F2FCE2' ? 'ring-2 ring-pdf-primary' : ''}`}
+                      style={{ backgroundColor: '#F2FCE2' }}
+                      onClick={() => setHighlightColor('#F2FCE2')}
+                    />
+                    <div 
+                      className={`w-5 h-5 rounded-full cursor-pointer ${highlightColor === '#FEC6A1' ? 'ring-2 ring-pdf-primary' : ''}`}
+                      style={{ backgroundColor: '#FEC6A1' }}
+                      onClick={() => setHighlightColor('#FEC6A1')}
+                    />
+                    <div 
+                      className={`w-5 h-5 rounded-full cursor-pointer ${highlightColor === '#E5DEFF' ? 'ring-2 ring-pdf-primary' : ''}`}
+                      style={{ backgroundColor: '#E5DEFF' }}
+                      onClick={() => setHighlightColor('#E5DEFF')}
+                    />
+                    <div 
+                      className={`w-5 h-5 rounded-full cursor-pointer ${highlightColor === '#FFDEE2' ? 'ring-2 ring-pdf-primary' : ''}`}
+                      style={{ backgroundColor: '#FFDEE2' }}
+                      onClick={() => setHighlightColor('#FFDEE2')}
                     />
                   </div>
-                  <Button variant="outline" size="icon" onClick={handleZoomIn}>
-                    <ZoomIn className="h-4 w-4" />
-                  </Button>
-                  <span className="text-sm w-14 text-right">{Math.round(scale * 100)}%</span>
-                </div>
-              </TabsContent>
+                </TabsContent>
 
-              <TabsContent value="annotate" className="flex items-center gap-2 mt-2">
-                <div className="flex items-center gap-2">
+                <TabsContent value="edit" className="flex items-center gap-2 mt-2">
                   <Button 
                     variant="outline" 
                     size="sm"
-                    className={activeTool === 'highlight' ? 'bg-pdf-primary text-white' : ''}
-                    onClick={() => setActiveTool(activeTool === 'highlight' ? '' : 'highlight')}
+                    className={activeTool === 'text' ? 'bg-pdf-primary text-white' : ''}
+                    onClick={() => setActiveTool(activeTool === 'text' ? '' : 'text')}
                   >
-                    <Highlighter className="h-4 w-4 mr-2" />
-                    Highlight
+                    <Text className="h-4 w-4 mr-2" />
+                    Add Text
                   </Button>
                   <Button 
                     variant="outline" 
                     size="sm"
-                    className={activeTool === 'pen' ? 'bg-pdf-primary text-white' : ''}
-                    onClick={() => setActiveTool(activeTool === 'pen' ? '' : 'pen')}
+                    className={activeTool === 'shape' ? 'bg-pdf-primary text-white' : ''}
+                    onClick={() => setActiveTool(activeTool === 'shape' ? '' : 'shape')}
                   >
-                    <Pencil className="h-4 w-4 mr-2" />
-                    Draw
+                    <Square className="h-4 w-4 mr-2" />
+                    Add Shape
                   </Button>
-                </div>
-                
-                <Separator orientation="vertical" className="h-6" />
-                
-                <div className="flex items-center gap-1">
-                  <div 
-                    className={`w-5 h-5 rounded-full cursor-pointer ${highlightColor === '#FEF7CD' ? 'ring-2 ring-pdf-primary' : ''}`}
-                    style={{ backgroundColor: '#FEF7CD' }}
-                    onClick={() => setHighlightColor('#FEF7CD')}
-                  />
-                  <div 
-                    className={`w-5 h-5 rounded-full cursor-pointer ${highlightColor === '#F2FCE2' ? 'ring-2 ring-pdf-primary' : ''}`}
-                    style={{ backgroundColor: '#F2FCE2' }}
-                    onClick={() => setHighlightColor('#F2FCE2')}
-                  />
-                  <div 
-                    className={`w-5 h-5 rounded-full cursor-pointer ${highlightColor === '#FEC6A1' ? 'ring-2 ring-pdf-primary' : ''}`}
-                    style={{ backgroundColor: '#FEC6A1' }}
-                    onClick={() => setHighlightColor('#FEC6A1')}
-                  />
-                  <div 
-                    className={`w-5 h-5 rounded-full cursor-pointer ${highlightColor === '#E5DEFF' ? 'ring-2 ring-pdf-primary' : ''}`}
-                    style={{ backgroundColor: '#E5DEFF' }}
-                    onClick={() => setHighlightColor('#E5DEFF')}
-                  />
-                  <div 
-                    className={`w-5 h-5 rounded-full cursor-pointer ${highlightColor === '#FFDEE2' ? 'ring-2 ring-pdf-primary' : ''}`}
-                    style={{ backgroundColor: '#FFDEE2' }}
-                    onClick={() => setHighlightColor('#FFDEE2')}
-                  />
-                </div>
-              </TabsContent>
-
-              <TabsContent value="edit" className="flex items-center gap-2 mt-2">
-                <Button 
-                  variant="outline" 
-                  size="sm"
-                  className={activeTool === 'text' ? 'bg-pdf-primary text-white' : ''}
-                  onClick={() => setActiveTool(activeTool === 'text' ? '' : 'text')}
-                >
-                  <Text className="h-4 w-4 mr-2" />
-                  Add Text
-                </Button>
-                <Button 
-                  variant="outline" 
-                  size="sm"
-                  className={activeTool === 'shape' ? 'bg-pdf-primary text-white' : ''}
-                  onClick={() => setActiveTool(activeTool === 'shape' ? '' : 'shape')}
-                >
-                  <Square className="h-4 w-4 mr-2" />
-                  Add Shape
-                </Button>
-                <Button 
-                  variant="outline" 
-                  size="sm"
-                  className={activeTool === 'tts' ? 'bg-pdf-primary text-white' : ''}
-                  onClick={() => setActiveTool(activeTool === 'tts' ? '' : 'tts')}
-                >
-                  <Mic className="h-4 w-4 mr-2" />
-                  Text-to-Speech
-                </Button>
-              </TabsContent>
-            </Tabs>
+                  <Button 
+                    variant="outline" 
+                    size="sm"
+                    className={activeTool === 'tts' ? 'bg-pdf-primary text-white' : ''}
+                    onClick={() => setActiveTool(activeTool === 'tts' ? '' : 'tts')}
+                  >
+                    <Mic className="h-4 w-4 mr-2" />
+                    Text-to-Speech
+                  </Button>
+                </TabsContent>
+              </Tabs>
+            </div>
+
+            <ResizablePanelGroup direction="horizontal" className="flex-1 min-h-0">
+              <ResizablePanel id="document" order={1} defaultSize={sideBySideLanguage || revisionDocument ? 55 : 100} minSize={30} className="flex flex-col">
+                <PDFSelectionMenu containerRef={containerRef} onAction={handleSelectionAction}>
+                  <div ref={containerRef} className="pdf-container flex-1 min-h-0">
+                    {pdfDocument && viewMode === 'continuous' ? (
+                      <PDFContinuousView
+                        pdfDocument={pdfDocument}
+                        scale={scale}
+                        pageOrder={pageOrder}
+                        currentPage={currentPage}
+                        scrollContainerRef={containerRef}
+                        onCurrentPageChange={setCurrentPage}
+                        renderPage={renderPage}
+                      />
+                    ) : pdfDocument && isSpreadMode(viewMode) ? (
+                      <PDFSpreadView
+                        pages={currentSpread}
+                        lonePageSide={getLonePageSide(spreadPositions[0], viewMode)}
+                        renderPage={renderPage}
+                      />
+                    ) : pdfDocument ? (
+                      renderPage(currentPage)
+                    ) : (
+                      <div className="flex flex-col items-center justify-center h-full">
+                        <div className="bg-white p-12 rounded-lg shadow-md text-center">
+                          <BookOpen className="h-16 w-16 mx-auto text-pdf-primary mb-4" />
+                          <h2 className="text-2xl font-bold mb-2">No PDF Open</h2>
+                          <p className="text-gray-500 mb-6">Upload a PDF file to get started</p>
+                          <Button onClick={() => fileInputRef.current?.click()}>
+                            Choose File
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                </PDFSelectionMenu>
+              </ResizablePanel>
+              {pdfDocument && revisionDocument && (
+                <>
+                  <ResizableHandle withHandle />
+                  <ResizablePanel id="compare" order={2} defaultSize={45} minSize={20}>
+                    <PDFCompareView
+                      revisionDocument={revisionDocument}
+                      fileName={revisionFileName}
+                      pageNumber={currentPage}
+                      revisionPages={comparison.revisionPagesFor[currentPage] ?? []}
+                      revisionHits={comparison.revisionHits}
+                      changedPages={comparison.changedPages}
+                      isReady={comparison.isReady}
+                      progress={comparison.progress}
+                      scale={scale}
+                      isPixelDiffShown={isPixelDiffShown}
+                      onPixelDiffShownChange={setIsPixelDiffShown}
+                      onNavigate={goToPage}
+                      onClose={() => setRevisionDocument(null)}
+                      scrollContainerRef={containerRef}
+                    />
+                  </ResizablePanel>
+                </>
+              )}
+              {pdfDocument && sideBySideLanguage && (
+                <>
+                  <ResizableHandle withHandle />
+                  <ResizablePanel id="translation" order={2} defaultSize={45} minSize={20}>
+                    <PDFTranslationView
+                      pdfDocument={pdfDocument}
+                      pageNumber={currentPage}
+                      languageCode={sideBySideLanguage}
+                      onLanguageChange={setSideBySideLanguage}
+                      onClose={() => setSideBySideLanguage(null)}
+                      scrollContainerRef={containerRef}
+                    />
+                  </ResizablePanel>
+                </>
+              )}
+            </ResizablePanelGroup>
           </div>
 
-          <div className="pdf-container">
-            {pdfDocument ? (
-              <PDFPage
+          {isAIOpen && (
+            <div className="w-1/3 border-l">
+              <AIAssistant 
                 pdfDocument={pdfDocument}
-                pageNumber={currentPage}
-                scale={scale}
-                activeTool={activeTool}
-                highlightColor={highlightColor}
-                onPageRendered={handlePageRendered}
+                documentTexts={documentTexts}
+                isTextComplete={isTextComplete}
+                documentId={documentId}
+                documentTitle={fileName}
+                retrieve={retrieve}
+                indexedPageCount={indexedPageCount}
+                pageText={getCurrentPageText()} 
+                currentPage={currentPage} 
+                totalPages={totalPages}
+                onClose={() => {
+                  setIsAIOpen(false);
+                  setSelectionRequest(null);
+                }}
+                onCitationClick={handleCitationClick}
+                selectionRequest={selectionRequest}
+                onOpenSideBySide={handleOpenSideBySide}
+                glossary={glossary}
+                onGlossaryChange={updateGlossary}
+                isGlossaryShown={isGlossaryShown}
+                onGlossaryShownChange={setIsGlossaryShown}
+                comparison={revisionDocument ? { revisionTitle: revisionFileName, pages: comparison.comparison, progress: comparison.progress } : null}
               />
-            ) : (
-              <div className="flex flex-col items-center justify-center h-full">
-                <div className="bg-white p-12 rounded-lg shadow-md text-center">
-                  <BookOpen className="h-16 w-16 mx-auto text-pdf-primary mb-4" />
-                  <h2 className="text-2xl font-bold mb-2">No PDF Open</h2>
-                  <p className="text-gray-500 mb-6">Upload a PDF file to get started</p>
-                  <Button onClick={() => fileInputRef.current?.click()}>
-                    Choose File
-                  </Button>
-                </div>
-              </div>
-            )}
-          </div>
+            </div>
+          )}
         </div>
-
-        {isAIOpen && (
-          <div className="w-1/3 border-l">
-            <AIAssistant 
-              pageText={getCurrentPageText()} 
-              currentPage={currentPage} 
-              totalPages={totalPages}
-              onClose={() => setIsAIOpen(false)}
-            />
-          </div>
-        )}
-      </div>
-    </div>
+      </SidebarInset>
+    </SidebarProvider>
   );
 };
 
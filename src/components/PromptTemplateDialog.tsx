@@ -0,0 +1,118 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { PromptTemplate, TEMPLATE_VARIABLES, createTemplateId } from '@/lib/prompt-templates';
+
+interface PromptTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The template to edit, or the starting point of a new one when it has no id
+  template: Partial<PromptTemplate> | null;
+  onSave: (template: PromptTemplate) => void;
+}
+
+const PromptTemplateDialog: React.FC<PromptTemplateDialogProps> = ({ open, onOpenChange, template, onSave }) => {
+  const [name, setName] = useState<string>('');
+  const [description, setDescription] = useState<string>('');
+  const [prompt, setPrompt] = useState<string>('');
+  const promptRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    if (open) {
+      setName(template?.name ?? '');
+      setDescription(template?.description ?? '');
+      setPrompt(template?.prompt ?? '');
+    }
+  }, [open, template]);
+
+  // Puts the placeholder at the cursor, replacing any selected text
+  const insertVariable = (variable: string) => {
+    const textarea = promptRef.current;
+    const placeholder = `{{${variable}}}`;
+    const start = textarea?.selectionStart ?? prompt.length;
+    const end = textarea?.selectionEnd ?? prompt.length;
+    setPrompt(prompt.slice(0, start) + placeholder + prompt.slice(end));
+
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  const handleSave = () => {
+    onSave({
+      id: template?.id ?? createTemplateId(),
+      name: name.trim(),
+      description: description.trim(),
+      prompt,
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{template?.id ? 'Edit template' : 'New template'}</DialogTitle>
+          <DialogDescription>
+            Placeholders in double braces are filled in when the template runs.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label htmlFor="template-name">Name</Label>
+            <Input id="template-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="template-description">Description (optional)</Label>
+            <Input id="template-description" value={description} onChange={(e) => setDescription(e.target.value)} />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="template-prompt">Prompt</Label>
+            <Textarea
+              id="template-prompt"
+              ref={promptRef}
+              value={prompt}
+              onChange={(e) => setPrompt(e.target.value)}
+              rows={8}
+              className="font-mono text-xs"
+            />
+            <div className="flex flex-wrap gap-1">
+              {TEMPLATE_VARIABLES.map(variable => (
+                <Button
+                  key={variable.name}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="h-6 px-2 font-mono text-xs"
+                  title={variable.description}
+                  onClick={() => insertVariable(variable.name)}
+                >
+                  {`{{${variable.name}}}`}
+                </Button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!name.trim() || !prompt.trim()}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PromptTemplateDialog;
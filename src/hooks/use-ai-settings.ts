@@ -0,0 +1,44 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { ProviderSettings, createProvider, isProviderConfigured } from '@/lib/ai';
+import { loadProviderSettings, saveProviderSettings } from '@/lib/ai/settings';
+
+// Settings are shared by every component that talks to the model, so they live
+// in a module-level store rather than per-component state
+let currentSettings: ProviderSettings | null = null;
+const listeners = new Set<() => void>();
+
+const getSettings = () => {
+  if (!currentSettings) {
+    currentSettings = loadProviderSettings();
+  }
+  return currentSettings;
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const updateSettings = (settings: ProviderSettings) => {
+  currentSettings = settings;
+  try {
+    saveProviderSettings(settings);
+  } catch (error) {
+    console.error('Error saving AI settings:', error);
+  }
+  listeners.forEach(listener => listener());
+};
+
+export const useAISettings = () => {
+  const settings = useSyncExternalStore(subscribe, getSettings);
+  const provider = useMemo(() => createProvider(settings), [settings]);
+
+  return {
+    settings,
+    provider,
+    isConfigured: isProviderConfigured(settings),
+    updateSettings,
+  };
+};
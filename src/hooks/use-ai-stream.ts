@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useToast } from '@/components/ui/use-toast';
+import { useAISettings } from '@/hooks/use-ai-settings';
+import { ChatMessage } from '@/lib/ai';
+
+const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+// Streams one model response at a time. Starting a new request aborts the
+// previous one; stopping keeps whatever text has arrived so far.
+export const useAIStream = () => {
+  const { provider } = useAISettings();
+  const { toast } = useToast();
+  const [output, setOutput] = useState<string>('');
+  const [isStreaming, setIsStreaming] = useState<boolean>(false);
+  const [wasStopped, setWasStopped] = useState<boolean>(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  // Resolves with the text received, including a partial answer when stopped
+  const start = useCallback(async (messages: ChatMessage[]): Promise<{ text: string, stopped: boolean }> => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    let text = '';
+    let stopped = false;
+    setOutput('');
+    setWasStopped(false);
+    setIsStreaming(true);
+
+    try {
+      for await (const chunk of provider.stream({ messages, signal: controller.signal })) {
+        text += chunk;
+        if (controllerRef.current === controller) setOutput(text);
+      }
+    } catch (error) {
+      if (isAbortError(error) || controller.signal.aborted) {
+        // Only a Stop press marks the answer as cut short; a newer request
+        // replacing this one resets the output itself
+        stopped = true;
+        if (controllerRef.current === controller) setWasStopped(true);
+      } else {
+        console.error('Error streaming AI response:', error);
+        toast({
+          title: 'Error',
+          description: error instanceof Error ? error.message : 'The AI request failed. Please try again.',
+          variant: 'destructive',
+        });
+      }
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsStreaming(false);
+      }
+    }
+    return { text, stopped };
+  }, [provider, toast]);
+
+  const stop = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  const reset = useCallback(() => {
+    const controller = controllerRef.current;
+    controllerRef.current = null;
+    controller?.abort();
+    setIsStreaming(false);
+    setOutput('');
+    setWasStopped(false);
+  }, []);
+
+  return { output, isStreaming, wasStopped, start, stop, reset };
+};
@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { PDFDocumentProxy } from 'pdfjs-dist';
+import { PageAnnotations, PageAnnotationsUpdater, emptyPageAnnotations } from '@/lib/annotations';
+import { DocumentAnnotations, loadDocumentAnnotations, savePageAnnotations } from '@/lib/annotation-store';
+import { hideImportedAnnotations, mergeImportedAnnotations, readDocumentAnnotations } from '@/lib/pdf-import';
+
+const EMPTY_PAGE = emptyPageAnnotations();
+
+// Keeps the annotations of the open document in memory, keyed by page number,
+// and mirrors every change into IndexedDB under the document's fingerprint.
+// Annotations already present in the PDF file are merged in on load.
+export const useAnnotationStore = (pdfDocument: PDFDocumentProxy | null) => {
+  const [annotations, setAnnotations] = useState<DocumentAnnotations>({});
+  const annotationsRef = useRef<DocumentAnnotations>({});
+  // Edits made before the stored annotations have loaded; they are shown right
+  // away but only saved once re-applied to the loaded pages
+  const pendingEditsRef = useRef<Array<[number, PageAnnotationsUpdater]> | null>(null);
+  const fingerprint = pdfDocument?.fingerprints[0] || null;
+
+  useEffect(() => {
+    annotationsRef.current = {};
+    pendingEditsRef.current = null;
+    setAnnotations({});
+
+    if (!pdfDocument || !fingerprint) return;
+    pendingEditsRef.current = [];
+
+    let cancelled = false;
+
+    const load = async () => {
+      const [stored, imported] = await Promise.all([
+        loadDocumentAnnotations(fingerprint).catch((error) => {
+          console.error('Error loading annotations:', error);
+          return {} as DocumentAnnotations;
+        }),
+        readDocumentAnnotations(pdfDocument).catch((error) => {
+          console.error('Error reading PDF annotations:', error);
+          return {} as DocumentAnnotations;
+        }),
+      ]);
+      if (cancelled) return;
+
+      const merged: DocumentAnnotations = { ...stored };
+      Object.entries(imported).forEach(([page, pageAnnotations]) => {
+        merged[Number(page)] = mergeImportedAnnotations(stored[Number(page)], pageAnnotations);
+      });
+      hideImportedAnnotations(pdfDocument, merged);
+
+      // Edits made while loading are replayed on top of what was loaded, so
+      // saving them does not overwrite the stored page
+      const edits = pendingEditsRef.current ?? [];
+      pendingEditsRef.current = null;
+      edits.forEach(([pageNumber, updater]) => {
+        merged[pageNumber] = updater(merged[pageNumber] || emptyPageAnnotations());
+      });
+      annotationsRef.current = merged;
+      setAnnotations(merged);
+
+      new Set(edits.map(([pageNumber]) => pageNumber)).forEach((pageNumber) => {
+        savePageAnnotations(fingerprint, pageNumber, merged[pageNumber]).catch((error) => {
+          console.error('Error saving annotations:', error);
+        });
+      });
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdfDocument, fingerprint]);
+
+  const getPageAnnotations = useCallback(
+    (pageNumber: number): PageAnnotations => annotations[pageNumber] || EMPTY_PAGE,
+    [annotations]
+  );
+
+  const updatePageAnnotations = useCallback(
+    (pageNumber: number, updater: PageAnnotationsUpdater) => {
+      const next = updater(annotationsRef.current[pageNumber] || emptyPageAnnotations());
+      annotationsRef.current = { ...annotationsRef.current, [pageNumber]: next };
+      setAnnotations(annotationsRef.current);
+
+      if (pendingEditsRef.current) {
+        pendingEditsRef.current.push([pageNumber, updater]);
+      } else if (fingerprint) {
+        savePageAnnotations(fingerprint, pageNumber, next).catch((error) => {
+          console.error('Error saving annotations:', error);
+        });
+      }
+    },
+    [fingerprint]
+  );
+
+  return { annotations, getPageAnnotations, updatePageAnnotations };
+};
@@ -0,0 +1,99 @@
+import { useEffect, useMemo, useState } from 'react';
+import { PDFDocumentProxy } from 'pdfjs-dist';
+import { DiffRange, PageComparison } from '@/lib/compare';
+import type { CompareRequest, CompareResponse } from '@/workers/compare.worker';
+import { useDocumentText } from './use-document-text';
+
+export type DiffHit = DiffRange & { kind: 'insert' | 'delete' };
+
+export interface ComparisonProgress {
+  completed: number;
+  // Zero while the pages are still being aligned
+  total: number;
+}
+
+// Compares the open document with a second version of it once the text of
+// both has been extracted: pages are aligned and the word changes of every
+// pair are indexed by page on either side. The comparison runs in a Web
+// Worker, one per comparison, so long documents do not freeze the page.
+export const useDocumentComparison = (
+  documentTexts: Record<number, string>,
+  isTextComplete: boolean,
+  totalPages: number,
+  revisionDocument: PDFDocumentProxy | null
+) => {
+  const { pageTexts: revisionTexts, isComplete: isRevisionComplete } = useDocumentText(revisionDocument);
+  const isTextReady = !!revisionDocument && isTextComplete && isRevisionComplete;
+  const [comparison, setComparison] = useState<PageComparison[] | null>(null);
+  const [progress, setProgress] = useState<ComparisonProgress | null>(null);
+
+  useEffect(() => {
+    setComparison(null);
+    setProgress(null);
+    if (!isTextReady) return;
+
+    const worker = new Worker(new URL('../workers/compare.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<CompareResponse>) => {
+      const response = event.data;
+      if (response.type === 'progress') {
+        setProgress({ completed: response.completed, total: response.total });
+      } else {
+        setComparison(response.comparison);
+        setProgress(null);
+        worker.terminate();
+      }
+    };
+    worker.onerror = (event) => {
+      console.error('Error in comparison worker:', event.message);
+      setProgress(null);
+    };
+    setProgress({ completed: 0, total: 0 });
+    worker.postMessage({
+      leftTexts: documentTexts,
+      leftPageCount: totalPages,
+      rightTexts: revisionTexts,
+      rightPageCount: revisionDocument.numPages,
+    } satisfies CompareRequest);
+
+    // Stops a comparison of texts that have since changed
+    return () => worker.terminate();
+  }, [isTextReady, documentTexts, totalPages, revisionTexts, revisionDocument]);
+
+  const isReady = comparison !== null;
+
+  return useMemo(() => {
+    const byOriginalPage: Record<number, PageComparison> = {};
+    // Revision pages shown next to each original page: its counterpart, then
+    // any pages added after it
+    const revisionPagesFor: Record<number, number[]> = {};
+    const originalHits: Record<number, DiffHit[]> = {};
+    const revisionHits: Record<number, DiffHit[]> = {};
+    // Original pages with changes, including those followed by added pages
+    const changedPages: number[] = [];
+    let previous = 1;
+
+    comparison?.forEach((pair) => {
+      if (pair.left !== null) {
+        previous = pair.left;
+        byOriginalPage[pair.left] = pair;
+        originalHits[pair.left] = pair.deleted.map(range => ({ ...range, kind: 'delete' }));
+      }
+      if (pair.right !== null) {
+        (revisionPagesFor[previous] ??= []).push(pair.right);
+        revisionHits[pair.right] = pair.inserted.map(range => ({ ...range, kind: 'insert' }));
+      }
+      if (pair.changes.length > 0 && !changedPages.includes(previous)) changedPages.push(previous);
+    });
+
+    return {
+      isReady,
+      progress,
+      comparison,
+      byOriginalPage,
+      revisionPagesFor,
+      originalHits,
+      revisionHits,
+      changedPages: changedPages.sort((a, b) => a - b),
+    };
+  }, [comparison, isReady, progress]);
+};
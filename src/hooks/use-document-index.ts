@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { PDFDocumentProxy } from 'pdfjs-dist';
+import { RetrievedChunk, chunkPageText } from '@/lib/retrieval';
+import type { RetrievalRequest, RetrievalResponse } from '@/workers/retrieval.worker';
+
+const DEFAULT_RESULT_LIMIT = 6;
+
+// Indexes the text of every page in a Web Worker as it is extracted, and
+// answers relevance queries against it. One worker per open document.
+export const useDocumentIndex = (pdfDocument: PDFDocumentProxy | null, pageTexts: Record<number, string>) => {
+  const workerRef = useRef<Worker | null>(null);
+  const indexedPagesRef = useRef<Set<number>>(new Set());
+  const pendingRef = useRef<Map<number, (results: RetrievedChunk[]) => void>>(new Map());
+  const nextRequestIdRef = useRef<number>(0);
+  const [indexedPageCount, setIndexedPageCount] = useState<number>(0);
+
+  useEffect(() => {
+    indexedPagesRef.current = new Set();
+    setIndexedPageCount(0);
+
+    if (!pdfDocument) return;
+
+    const worker = new Worker(new URL('../workers/retrieval.worker.ts', import.meta.url), { type: 'module' });
+    const pending = pendingRef.current;
+
+    worker.onmessage = (event: MessageEvent<RetrievalResponse>) => {
+      const response = event.data;
+      if (response.type === 'results') {
+        pending.get(response.requestId)?.(response.results);
+        pending.delete(response.requestId);
+      }
+    };
+    worker.onerror = (event) => {
+      console.error('Error in retrieval worker:', event.message);
+    };
+    workerRef.current = worker;
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      pending.forEach(resolve => resolve([]));
+      pending.clear();
+    };
+  }, [pdfDocument]);
+
+  useEffect(() => {
+    const worker = workerRef.current;
+    if (!worker) return;
+
+    const newPages = Object.keys(pageTexts)
+      .map(Number)
+      .filter(pageNumber => !indexedPagesRef.current.has(pageNumber));
+    if (newPages.length === 0) return;
+
+    const chunks = newPages.flatMap(pageNumber => chunkPageText(pageNumber, pageTexts[pageNumber]));
+    newPages.forEach(pageNumber => indexedPagesRef.current.add(pageNumber));
+    worker.postMessage({ type: 'add', chunks } satisfies RetrievalRequest);
+    setIndexedPageCount(indexedPagesRef.current.size);
+  }, [pageTexts]);
+
+  // Resolves with the chunks most relevant to the query, best first
+  const retrieve = useCallback((query: string, limit = DEFAULT_RESULT_LIMIT): Promise<RetrievedChunk[]> => {
+    const worker = workerRef.current;
+    if (!worker) return Promise.resolve([]);
+
+    const requestId = ++nextRequestIdRef.current;
+    return new Promise((resolve) => {
+      pendingRef.current.set(requestId, resolve);
+      worker.postMessage({ type: 'search', requestId, query, limit } satisfies RetrievalRequest);
+    });
+  }, []);
+
+  return { retrieve, indexedPageCount };
+};
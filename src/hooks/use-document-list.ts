@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { DocumentListStore } from '@/lib/document-list-store';
+
+export type DocumentListUpdater<T> = (items: T[]) => T[];
+
+// A list belonging to the open document, loaded from and saved to the given
+// store under the document's fingerprint so reopening the PDF restores it.
+export const useDocumentList = <T>(store: DocumentListStore<T>, fingerprint: string | null) => {
+  const [items, setItems] = useState<T[]>([]);
+  const itemsRef = useRef<T[]>([]);
+
+  useEffect(() => {
+    itemsRef.current = [];
+    setItems([]);
+
+    if (!fingerprint) return;
+
+    let cancelled = false;
+
+    store.load(fingerprint)
+      .then((stored) => {
+        if (cancelled) return;
+        // Items added while the list was loading go after it, and are saved
+        // again since what was saved then lacked the stored ones
+        const added = itemsRef.current;
+        itemsRef.current = [...stored, ...added];
+        setItems(itemsRef.current);
+        if (added.length > 0) {
+          store.save(fingerprint, itemsRef.current).catch((error) => {
+            console.error(`Error saving ${store.label}:`, error);
+          });
+        }
+      })
+      .catch((error) => {
+        console.error(`Error loading ${store.label}:`, error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [store, fingerprint]);
+
+  const updateItems = useCallback((updater: DocumentListUpdater<T>) => {
+    itemsRef.current = updater(itemsRef.current);
+    setItems(itemsRef.current);
+
+    if (fingerprint) {
+      store.save(fingerprint, itemsRef.current).catch((error) => {
+        console.error(`Error saving ${store.label}:`, error);
+      });
+    }
+  }, [store, fingerprint]);
+
+  return { items, updateItems };
+};
@@ -0,0 +1,53 @@
+import { useDeferredValue, useEffect, useMemo, useState } from 'react';
+import { SearchHit, SearchOptions, buildSearchPattern, searchPages } from '@/lib/search';
+
+const DEFAULT_OPTIONS: SearchOptions = {
+  caseSensitive: false,
+  wholeWord: false,
+  regex: false,
+};
+
+// Search state for the open document. Hits are ordered by the given page
+// order and recomputed as more page text becomes available.
+export const useDocumentSearch = (pageTexts: Record<number, string>, pageOrder: number[]) => {
+  const [query, setQuery] = useState<string>('');
+  const [options, setOptions] = useState<SearchOptions>(DEFAULT_OPTIONS);
+  const [activeIndex, setActiveIndex] = useState<number>(0);
+  const deferredQuery = useDeferredValue(query);
+
+  const { hits, error } = useMemo((): { hits: SearchHit[], error: string | null } => {
+    if (!deferredQuery) return { hits: [], error: null };
+
+    try {
+      const pattern = buildSearchPattern(deferredQuery, options);
+      return { hits: searchPages(pageTexts, pageOrder, pattern), error: null };
+    } catch (e) {
+      return { hits: [], error: e instanceof Error ? e.message : 'Invalid search pattern' };
+    }
+  }, [deferredQuery, options, pageTexts, pageOrder]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [deferredQuery, options]);
+
+  const activeHit = hits.length > 0 ? hits[Math.min(activeIndex, hits.length - 1)] : null;
+
+  const step = (direction: 1 | -1) => {
+    if (hits.length === 0) return;
+    setActiveIndex(prev => (Math.min(prev, hits.length - 1) + direction + hits.length) % hits.length);
+  };
+
+  return {
+    query,
+    setQuery,
+    options,
+    setOptions,
+    hits,
+    error,
+    activeHit,
+    activeIndex: activeHit ? Math.min(activeIndex, hits.length - 1) : -1,
+    setActiveIndex,
+    findNext: () => step(1),
+    findPrevious: () => step(-1),
+  };
+};
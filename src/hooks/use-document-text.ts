@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { PDFDocumentProxy } from 'pdfjs-dist';
+import { extractPageText } from '@/lib/pdf-text';
+
+// Extracts the text of every page of the document in the background, one
+// page at a time, yielding to the browser between pages.
+export const useDocumentText = (pdfDocument: PDFDocumentProxy | null) => {
+  const [pageTexts, setPageTexts] = useState<Record<number, string>>({});
+  const [extractedCount, setExtractedCount] = useState<number>(0);
+
+  useEffect(() => {
+    setPageTexts({});
+    setExtractedCount(0);
+
+    if (!pdfDocument) return;
+
+    let cancelled = false;
+
+    const extract = async () => {
+      for (let pageNumber = 1; pageNumber <= pdfDocument.numPages; pageNumber++) {
+        try {
+          const text = await extractPageText(pdfDocument, pageNumber);
+          if (cancelled) return;
+          setPageTexts(prev => ({ ...prev, [pageNumber]: text }));
+        } catch (error) {
+          // Pages of a document destroyed meanwhile fail; that is expected
+          if (cancelled) return;
+          console.error(`Error extracting text of page ${pageNumber}:`, error);
+        }
+        if (cancelled) return;
+        setExtractedCount(pageNumber);
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    };
+
+    extract();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdfDocument]);
+
+  return {
+    pageTexts,
+    extractedCount,
+    isComplete: !!pdfDocument && extractedCount >= pdfDocument.numPages,
+  };
+};
@@ -0,0 +1,62 @@
+import { useEffect, useState } from 'react';
+import { PDFDocumentProxy } from 'pdfjs-dist';
+import { ZoomMode, computeFitScale } from '@/lib/page-layout';
+
+interface UseFitScaleOptions {
+  pdfDocument: PDFDocumentProxy | null;
+  pages: number[];
+  zoomMode: ZoomMode;
+  containerRef: React.RefObject<HTMLElement>;
+  onScaleChange: (scale: number) => void;
+}
+
+// Keeps the scale in sync with the container for the fit zoom modes. Runs again
+// whenever the visible pages change and whenever the container is resized,
+// e.g. by the window or by the AI Assistant panel opening next to it.
+export const useFitScale = ({ pdfDocument, pages, zoomMode, containerRef, onScaleChange }: UseFitScaleOptions) => {
+  const [pageSizes, setPageSizes] = useState<Array<{ width: number, height: number }> | null>(null);
+  const pagesKey = pages.join(',');
+
+  useEffect(() => {
+    if (!pdfDocument || zoomMode === 'custom') return;
+
+    let cancelled = false;
+    Promise.all(
+      pagesKey.split(',').map(async (pageNumber) => {
+        const page = await pdfDocument.getPage(Number(pageNumber));
+        const { width, height } = page.getViewport({ scale: 1 });
+        return { width, height };
+      })
+    )
+      .then((sizes) => {
+        if (!cancelled) setPageSizes(sizes);
+      })
+      .catch((error) => {
+        console.error('Error measuring page:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdfDocument, pagesKey, zoomMode]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !pageSizes || zoomMode === 'custom') return;
+
+    const update = () => {
+      // offsetWidth includes the scrollbar, so showing or hiding it can't feed back into the scale
+      onScaleChange(
+        computeFitScale(zoomMode, pageSizes, { width: container.offsetWidth, height: container.clientHeight })
+      );
+    };
+
+    update();
+    const resizeObserver = new ResizeObserver(update);
+    resizeObserver.observe(container);
+
+    return () => {
+      resizeObserver.disconnect();
+    };
+  }, [containerRef, pageSizes, zoomMode, onScaleChange]);
+};
@@ -0,0 +1,66 @@
+import { useSyncExternalStore } from 'react';
+import {
+  BUILT_IN_TEMPLATES,
+  PromptTemplate,
+  loadCustomTemplates,
+  saveCustomTemplates,
+} from '@/lib/prompt-templates';
+
+// The reader's own templates, shared by every component in a module-level
+// store like the AI settings
+let customTemplates: PromptTemplate[] | null = null;
+const listeners = new Set<() => void>();
+
+const getCustomTemplates = () => {
+  if (!customTemplates) {
+    customTemplates = loadCustomTemplates();
+  }
+  return customTemplates;
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const setCustomTemplates = (templates: PromptTemplate[]) => {
+  customTemplates = templates;
+  try {
+    saveCustomTemplates(templates);
+  } catch (error) {
+    console.error('Error saving prompt templates:', error);
+  }
+  listeners.forEach(listener => listener());
+};
+
+// Adds the template, or replaces the one with the same id
+const saveTemplate = (template: PromptTemplate) => {
+  const templates = getCustomTemplates();
+  setCustomTemplates(
+    templates.some(existing => existing.id === template.id)
+      ? templates.map(existing => existing.id === template.id ? template : existing)
+      : [...templates, template]
+  );
+};
+
+const deleteTemplate = (id: string) => {
+  setCustomTemplates(getCustomTemplates().filter(template => template.id !== id));
+};
+
+const addTemplates = (templates: PromptTemplate[]) => {
+  setCustomTemplates([...getCustomTemplates(), ...templates]);
+};
+
+export const usePromptTemplates = () => {
+  const custom = useSyncExternalStore(subscribe, getCustomTemplates);
+
+  return {
+    builtInTemplates: BUILT_IN_TEMPLATES,
+    customTemplates: custom,
+    saveTemplate,
+    deleteTemplate,
+    addTemplates,
+  };
+};
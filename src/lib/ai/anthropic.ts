@@ -0,0 +1,113 @@
+import { fetchJson, fetchOrThrow, joinUrl, readServerSentEvents, resolveTokenLimits } from './http';
+import {
+  AIProvider,
+  AIProviderError,
+  CompletionRequest,
+  ModelInfo,
+  ProviderKind,
+  ProviderSettings,
+  TokenLimits,
+} from './types';
+
+const API_VERSION = '2023-06-01';
+
+interface MessagesResponse {
+  content: Array<{ type: string, text?: string }>;
+}
+
+interface StreamEventData {
+  type: string;
+  delta?: { type: string, text?: string };
+  error?: { message?: string };
+}
+
+// Anthropic-style Messages API. System messages are lifted into the top-level
+// system field, since the API only accepts user and assistant turns.
+export class AnthropicProvider implements AIProvider {
+  readonly kind: ProviderKind = 'anthropic';
+
+  constructor(private settings: ProviderSettings) {}
+
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'x-api-key': this.settings.apiKey,
+      'anthropic-version': API_VERSION,
+      // The reader calls the API straight from the browser with the user's own key
+      'anthropic-dangerous-direct-browser-access': 'true',
+    };
+  }
+
+  private body(request: CompletionRequest, stream: boolean) {
+    const model = request.model || this.settings.model;
+    if (!model) throw new AIProviderError('No model selected. Choose one in the AI settings.');
+
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+    const messages = request.messages
+      .filter(message => message.role !== 'system')
+      .map(({ role, content }) => ({ role, content }));
+
+    return JSON.stringify({
+      model,
+      system: system || undefined,
+      messages,
+      max_tokens: request.maxTokens ?? this.getTokenLimits(model).maxOutputTokens,
+      temperature: request.temperature,
+      stream,
+    });
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const response = await fetchJson<MessagesResponse>(joinUrl(this.settings.baseUrl, 'messages'), {
+      method: 'POST',
+      headers: this.headers(),
+      body: this.body(request, false),
+      signal: request.signal,
+    });
+    return response.content
+      .filter(block => block.type === 'text')
+      .map(block => block.text ?? '')
+      .join('');
+  }
+
+  async *stream(request: CompletionRequest): AsyncGenerator<string, void, undefined> {
+    const response = await fetchOrThrow(joinUrl(this.settings.baseUrl, 'messages'), {
+      method: 'POST',
+      headers: this.headers(),
+      body: this.body(request, true),
+      signal: request.signal,
+    });
+
+    for await (const { event, data } of readServerSentEvents(response)) {
+      if (event === 'ping') continue;
+
+      const payload = JSON.parse(data) as StreamEventData;
+      if (payload.type === 'error') {
+        throw new AIProviderError(payload.error?.message || 'The server reported an error');
+      }
+      if (payload.type === 'content_block_delta' && payload.delta?.type === 'text_delta' && payload.delta.text) {
+        yield payload.delta.text;
+      }
+      if (payload.type === 'message_stop') return;
+    }
+  }
+
+  async listModels(signal?: AbortSignal): Promise<ModelInfo[]> {
+    const response = await fetchJson<{ data: Array<{ id: string }> }>(
+      joinUrl(this.settings.baseUrl, 'models?limit=100'),
+      { headers: this.headers(), signal }
+    );
+    return response.data.map(model => ({ id: model.id }));
+  }
+
+  getTokenLimits(model?: string): TokenLimits {
+    return resolveTokenLimits(
+      model || this.settings.model,
+      this.settings.maxOutputTokens,
+      this.settings.contextWindow
+    );
+  }
+}
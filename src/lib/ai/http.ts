@@ -0,0 +1,128 @@
+import { AIProviderError, TokenLimits } from './types';
+
+export const joinUrl = (baseUrl: string, path: string) =>
+  `${baseUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+
+// Pulls a readable message out of the error bodies the supported APIs return:
+// { error: { message } }, { error: "..." } or plain text
+const readErrorMessage = async (response: Response) => {
+  const text = await response.text().catch(() => '');
+  try {
+    const body = JSON.parse(text);
+    const message = typeof body.error === 'string' ? body.error : body.error?.message ?? body.message;
+    if (message) return String(message);
+  } catch {
+    // Not JSON
+  }
+  return text.trim() || response.statusText || 'Request failed';
+};
+
+export const fetchOrThrow = async (url: string, init: RequestInit) => {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') throw error;
+    throw new AIProviderError(`Could not reach ${url}. Check the server address and that it allows requests from this page.`);
+  }
+
+  if (!response.ok) {
+    const message = await readErrorMessage(response);
+    throw new AIProviderError(`${response.status}: ${message}`, response.status);
+  }
+  return response;
+};
+
+export const fetchJson = async <T>(url: string, init: RequestInit): Promise<T> => {
+  const response = await fetchOrThrow(url, init);
+  return response.json() as Promise<T>;
+};
+
+// Splits a streamed response body into lines, decoding UTF-8 across chunk
+// boundaries
+async function* readLines(response: Response): AsyncGenerator<string, void, undefined> {
+  if (!response.body) throw new AIProviderError('The server returned an empty response');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline = buffer.indexOf('\n');
+      while (newline !== -1) {
+        yield buffer.slice(0, newline).replace(/\r$/, '');
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf('\n');
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer) yield buffer;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+// Parses a text/event-stream body into events. Multi-line data fields are
+// joined with newlines, as the spec requires.
+export async function* readServerSentEvents(response: Response): AsyncGenerator<ServerSentEvent, void, undefined> {
+  let event = '';
+  let data: string[] = [];
+
+  for await (const line of readLines(response)) {
+    if (line === '') {
+      if (data.length > 0) {
+        yield { event: event || 'message', data: data.join('\n') };
+      }
+      event = '';
+      data = [];
+    } else if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).replace(/^ /, ''));
+    }
+  }
+
+  if (data.length > 0) {
+    yield { event: event || 'message', data: data.join('\n') };
+  }
+}
+
+// Known context windows by model name prefix; the first match wins
+const CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/^gpt-4\.1/, 1047576],
+  [/^(gpt-4o|gpt-4-turbo|o1|o3|o4)/, 128000],
+  [/^gpt-4/, 8192],
+  [/^gpt-3\.5/, 16385],
+  [/^claude-/, 200000],
+  [/(llama-?3\.[1-3]|qwen2\.5|mistral-nemo)/, 131072],
+  [/(llama-?3|gemma)/, 8192],
+  [/mistral/, 32768],
+];
+
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+export const resolveTokenLimits = (
+  model: string,
+  maxOutputTokens: number,
+  contextWindowOverride: number
+): TokenLimits => {
+  const id = model.toLowerCase();
+  const contextWindow = contextWindowOverride > 0
+    ? contextWindowOverride
+    : CONTEXT_WINDOWS.find(([pattern]) => pattern.test(id))?.[1] ?? DEFAULT_CONTEXT_WINDOW;
+
+  return {
+    contextWindow,
+    maxOutputTokens: Math.min(maxOutputTokens, Math.floor(contextWindow / 2)),
+  };
+};
@@ -0,0 +1,48 @@
+import { AnthropicProvider } from './anthropic';
+import { LocalProvider } from './local';
+import { OpenAICompatibleProvider } from './openai-compatible';
+import { AIProvider, ProviderKind, ProviderSettings } from './types';
+
+export * from './types';
+
+export interface ProviderOption {
+  kind: ProviderKind;
+  label: string;
+  defaultBaseUrl: string;
+  requiresApiKey: boolean;
+}
+
+export const PROVIDER_OPTIONS: ProviderOption[] = [
+  { kind: 'openai', label: 'OpenAI-compatible', defaultBaseUrl: 'https://api.openai.com/v1', requiresApiKey: true },
+  { kind: 'anthropic', label: 'Anthropic Messages API', defaultBaseUrl: 'https://api.anthropic.com/v1', requiresApiKey: true },
+  { kind: 'local', label: 'Local (Ollama / llama.cpp)', defaultBaseUrl: 'http://localhost:11434', requiresApiKey: false },
+];
+
+export const getProviderOption = (kind: ProviderKind) =>
+  PROVIDER_OPTIONS.find(option => option.kind === kind) ?? PROVIDER_OPTIONS[0];
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  kind: 'local',
+  baseUrl: getProviderOption('local').defaultBaseUrl,
+  apiKey: '',
+  model: '',
+  maxOutputTokens: 1024,
+  contextWindow: 0,
+};
+
+// Whether the settings are complete enough to send a request
+export const isProviderConfigured = (settings: ProviderSettings) =>
+  !!settings.baseUrl &&
+  !!settings.model &&
+  (!getProviderOption(settings.kind).requiresApiKey || !!settings.apiKey);
+
+export const createProvider = (settings: ProviderSettings): AIProvider => {
+  switch (settings.kind) {
+    case 'anthropic':
+      return new AnthropicProvider(settings);
+    case 'local':
+      return new LocalProvider(settings);
+    default:
+      return new OpenAICompatibleProvider(settings);
+  }
+};
@@ -0,0 +1,101 @@
+import { fetchJson, joinUrl, resolveTokenLimits } from './http';
+import { OpenAICompatibleProvider } from './openai-compatible';
+import { ModelInfo, ProviderKind, TokenLimits } from './types';
+
+interface OllamaTagsResponse {
+  models: Array<{ name: string }>;
+}
+
+interface OllamaShowResponse {
+  model_info?: Record<string, unknown>;
+  // Modelfile parameters, one "name value" per line
+  parameters?: string;
+}
+
+interface LlamaCppPropsResponse {
+  default_generation_settings?: { n_ctx?: number };
+}
+
+// Context Ollama runs a model with when its Modelfile sets no num_ctx. Older
+// versions use 2048 and newer ones 4096; the smaller keeps prompts whole on
+// both. The OpenAI-compatible endpoint takes no num_ctx to raise it. Also
+// assumed before the server has reported anything, since local servers run
+// far below the context the model name suggests.
+const DEFAULT_LOCAL_CONTEXT = 2048;
+
+// Context windows reported by local servers, by base URL and model, so token
+// limits stay accurate after the provider is recreated
+const reportedContextWindows = new Map<string, number>();
+
+// A local Ollama or llama.cpp server. Both expose the OpenAI chat completions
+// API under /v1, so chat goes through that; models and context sizes come
+// from each server's native endpoints when available. The base URL is the
+// server root, e.g. http://localhost:11434 or http://localhost:8080.
+export class LocalProvider extends OpenAICompatibleProvider {
+  readonly kind: ProviderKind = 'local';
+
+  protected get apiBaseUrl() {
+    return joinUrl(this.settings.baseUrl, 'v1');
+  }
+
+  private async listOllamaModels(signal?: AbortSignal): Promise<ModelInfo[]> {
+    const { models } = await fetchJson<OllamaTagsResponse>(joinUrl(this.settings.baseUrl, 'api/tags'), { signal });
+
+    return Promise.all(models.map(async ({ name }) => {
+      try {
+        const { model_info, parameters } = await fetchJson<OllamaShowResponse>(joinUrl(this.settings.baseUrl, 'api/show'), {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ model: name }),
+          signal,
+        });
+        // The model's context_length is what it was trained for; the server
+        // runs it with num_ctx, which is usually far smaller
+        const key = Object.keys(model_info ?? {}).find(k => k.endsWith('.context_length'));
+        const trained = key ? Number(model_info[key]) || Infinity : Infinity;
+        const numCtx = Number(/^num_ctx\s+(\d+)/m.exec(parameters ?? '')?.[1]) || DEFAULT_LOCAL_CONTEXT;
+        return { id: name, contextWindow: Math.min(trained, numCtx) };
+      } catch {
+        return { id: name };
+      }
+    }));
+  }
+
+  private async listLlamaCppModels(signal?: AbortSignal): Promise<ModelInfo[]> {
+    const models = await super.listModels(signal);
+    try {
+      const props = await fetchJson<LlamaCppPropsResponse>(joinUrl(this.settings.baseUrl, 'props'), { signal });
+      // llama.cpp serves a single model, so the server context applies to it
+      const contextWindow = props.default_generation_settings?.n_ctx;
+      return models.map(model => ({ ...model, contextWindow }));
+    } catch {
+      return models;
+    }
+  }
+
+  async listModels(signal?: AbortSignal): Promise<ModelInfo[]> {
+    let models: ModelInfo[];
+    try {
+      models = await this.listOllamaModels(signal);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') throw error;
+      models = await this.listLlamaCppModels(signal);
+    }
+
+    models.forEach(({ id, contextWindow }) => {
+      if (contextWindow) {
+        reportedContextWindows.set(`${this.settings.baseUrl}|${id}`, contextWindow);
+      }
+    });
+    return models;
+  }
+
+  getTokenLimits(model?: string): TokenLimits {
+    const id = model || this.settings.model;
+    return resolveTokenLimits(
+      id,
+      this.settings.maxOutputTokens,
+      this.settings.contextWindow || reportedContextWindows.get(`${this.settings.baseUrl}|${id}`) || DEFAULT_LOCAL_CONTEXT
+    );
+  }
+}
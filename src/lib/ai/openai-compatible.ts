@@ -0,0 +1,98 @@
+import { fetchJson, fetchOrThrow, joinUrl, readServerSentEvents, resolveTokenLimits } from './http';
+import {
+  AIProvider,
+  AIProviderError,
+  CompletionRequest,
+  ModelInfo,
+  ProviderKind,
+  ProviderSettings,
+  TokenLimits,
+} from './types';
+
+interface ChatCompletionResponse {
+  choices: Array<{ message?: { content?: string | null } }>;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string | null } }>;
+  error?: { message?: string };
+}
+
+// Talks to any server implementing the OpenAI chat completions API
+// (OpenAI itself, Azure-style gateways, vLLM, LM Studio, ...).
+// The base URL is expected to include the version segment, e.g. .../v1.
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly kind: ProviderKind = 'openai';
+
+  constructor(protected settings: ProviderSettings) {}
+
+  protected get apiBaseUrl() {
+    return this.settings.baseUrl;
+  }
+
+  protected headers(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.settings.apiKey) {
+      headers.Authorization = `Bearer ${this.settings.apiKey}`;
+    }
+    return headers;
+  }
+
+  private body(request: CompletionRequest, stream: boolean) {
+    const model = request.model || this.settings.model;
+    if (!model) throw new AIProviderError('No model selected. Choose one in the AI settings.');
+
+    return JSON.stringify({
+      model,
+      messages: request.messages,
+      max_tokens: request.maxTokens ?? this.getTokenLimits(model).maxOutputTokens,
+      temperature: request.temperature,
+      stream,
+    });
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const response = await fetchJson<ChatCompletionResponse>(joinUrl(this.apiBaseUrl, 'chat/completions'), {
+      method: 'POST',
+      headers: this.headers(),
+      body: this.body(request, false),
+      signal: request.signal,
+    });
+    return response.choices[0]?.message?.content ?? '';
+  }
+
+  async *stream(request: CompletionRequest): AsyncGenerator<string, void, undefined> {
+    const response = await fetchOrThrow(joinUrl(this.apiBaseUrl, 'chat/completions'), {
+      method: 'POST',
+      headers: this.headers(),
+      body: this.body(request, true),
+      signal: request.signal,
+    });
+
+    for await (const { data } of readServerSentEvents(response)) {
+      if (data === '[DONE]') return;
+
+      const chunk = JSON.parse(data) as ChatCompletionChunk;
+      if (chunk.error) throw new AIProviderError(chunk.error.message || 'The server reported an error');
+
+      const content = chunk.choices?.[0]?.delta?.content;
+      if (content) yield content;
+    }
+  }
+
+  async listModels(signal?: AbortSignal): Promise<ModelInfo[]> {
+    const response = await fetchJson<{ data: Array<{ id: string }> }>(joinUrl(this.apiBaseUrl, 'models'), {
+      headers: this.headers(),
+      signal,
+    });
+    return response.data.map(model => ({ id: model.id })).sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  getTokenLimits(model?: string): TokenLimits {
+    return resolveTokenLimits(
+      model || this.settings.model,
+      this.settings.maxOutputTokens,
+      this.settings.contextWindow
+    );
+  }
+}
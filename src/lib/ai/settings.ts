@@ -0,0 +1,25 @@
+import { DEFAULT_PROVIDER_SETTINGS, PROVIDER_OPTIONS } from './index';
+import { ProviderSettings } from './types';
+
+const STORAGE_KEY = 'breezy-pdf-reader:ai-settings';
+
+// Reads the saved provider settings, falling back to defaults for anything
+// missing or malformed
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (!stored || typeof stored !== 'object') return DEFAULT_PROVIDER_SETTINGS;
+
+    const settings = { ...DEFAULT_PROVIDER_SETTINGS, ...stored } as ProviderSettings;
+    if (!PROVIDER_OPTIONS.some(option => option.kind === settings.kind)) {
+      return DEFAULT_PROVIDER_SETTINGS;
+    }
+    return settings;
+  } catch {
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
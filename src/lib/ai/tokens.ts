@@ -0,0 +1,232 @@
+import { AIProvider, ChatMessage, ProviderKind } from './types';
+
+// Characters per token of a plain English word. The tokenizers of OpenAI and
+// Anthropic models average close to four; the smaller vocabularies of most
+// local models (Llama, Mistral, Qwen) split words more finely.
+const CHARS_PER_TOKEN: Record<ProviderKind, number> = {
+  openai: 4,
+  anthropic: 3.6,
+  local: 3.2,
+};
+
+// Tokens every message costs on top of its text (role and separators)
+const MESSAGE_OVERHEAD = 4;
+
+// Share of the input budget kept free because the estimate is only an estimate
+const SAFETY_MARGIN = 0.1;
+
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+const NON_LATIN_PATTERN = /[^\p{Script=Latin}\p{N}]/u;
+
+// Estimates the token count of text the way BPE tokenizers tend to split it:
+// common words are one token, long words a token per few characters, numbers a
+// token per three digits, punctuation a token per mark, and CJK text about a
+// token per character. Other scripts take roughly twice as many tokens as Latin.
+export const estimateTokens = (text: string, kind: ProviderKind) => {
+  const charsPerToken = CHARS_PER_TOKEN[kind];
+  let tokens = 0;
+
+  for (const [piece] of text.matchAll(/[\p{L}\p{M}]+|\p{N}+|[^\s\p{L}\p{M}\p{N}]/gu)) {
+    if (/^\p{N}+$/u.test(piece)) {
+      tokens += Math.ceil(piece.length / 3);
+    } else if (CJK_PATTERN.test(piece)) {
+      tokens += piece.length;
+    } else if (/[\p{L}\p{M}]/u.test(piece)) {
+      const ratio = NON_LATIN_PATTERN.test(piece) ? charsPerToken / 2 : charsPerToken;
+      tokens += Math.max(1, Math.ceil(piece.length / ratio));
+    } else {
+      tokens += 1;
+    }
+  }
+  return tokens;
+};
+
+export const estimateMessagesTokens = (messages: ChatMessage[], kind: ProviderKind) =>
+  messages.reduce((total, message) => total + MESSAGE_OVERHEAD + estimateTokens(message.content, kind), 0);
+
+// Tokens a prompt can use: the context window less the reply and a margin
+export const getInputBudget = (provider: AIProvider) => {
+  const { contextWindow, maxOutputTokens } = provider.getTokenLimits();
+  return Math.max(0, Math.floor((contextWindow - maxOutputTokens) * (1 - SAFETY_MARGIN)));
+};
+
+// Abbreviations a sentence rarely ends with
+const ABBREVIATIONS = new Set(['al', 'approx', 'cf', 'dr', 'e.g', 'eq', 'etc', 'fig', 'i.e', 'mr', 'mrs', 'ms', 'no', 'p', 'pp', 'prof', 'sec', 'vol', 'vs']);
+
+// Splits text into sentences at terminal punctuation followed by a capital
+// letter, digit or opening quote, without breaking after common abbreviations.
+// Whitespace is collapsed, so chunks rejoin sentences with single spaces.
+export const splitSentences = (text: string): string[] => {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  if (!normalized) return [];
+
+  // CJK full stops need no space after them
+  const pieces = normalized
+    .split(/(?<=[.!?…]["'”’)\]]*) (?=["'“‘([]?[\p{Lu}\p{N}])|(?<=[。！？])/u)
+    .map(piece => piece.trim())
+    .filter(Boolean);
+  const sentences: string[] = [];
+  pieces.forEach((piece) => {
+    const previous = sentences[sentences.length - 1];
+    const lastWord = previous?.match(/(\S+)\.$/)?.[1].toLowerCase();
+    if (previous !== undefined && lastWord && ABBREVIATIONS.has(lastWord)) {
+      sentences[sentences.length - 1] = `${previous} ${piece}`;
+    } else {
+      sentences.push(piece);
+    }
+  });
+  return sentences;
+};
+
+// Cuts a single overlong sentence at a word boundary
+const cutToTokens = (sentence: string, maxTokens: number, kind: ProviderKind) => {
+  let end = Math.floor(maxTokens * CHARS_PER_TOKEN[kind]);
+  while (end > 0 && estimateTokens(sentence.slice(0, end), kind) > maxTokens) {
+    end = Math.floor(end * 0.9);
+  }
+  const breakAt = sentence.lastIndexOf(' ', end);
+  return sentence.slice(0, breakAt > end / 2 ? breakAt : end);
+};
+
+// Groups sentences into chunks that each fit in maxTokens. A sentence longer
+// than a chunk is cut at a word boundary and continued in the next chunk.
+export const chunkBySentences = (text: string, maxTokens: number, kind: ProviderKind): string[] => {
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+
+  const pushCurrent = () => {
+    if (current.length > 0) chunks.push(current.join(' '));
+    current = [];
+    currentTokens = 0;
+  };
+
+  splitSentences(text).forEach((sentence) => {
+    let rest = sentence;
+    let tokens = estimateTokens(rest, kind);
+
+    while (tokens > maxTokens) {
+      pushCurrent();
+      const head = cutToTokens(rest, maxTokens, kind);
+      if (!head) break;
+      chunks.push(head);
+      rest = rest.slice(head.length).trim();
+      tokens = estimateTokens(rest, kind);
+    }
+    if (!rest) return;
+
+    if (currentTokens + tokens > maxTokens) pushCurrent();
+    current.push(rest);
+    currentTokens += tokens + 1;
+  });
+  pushCurrent();
+
+  return chunks;
+};
+
+export interface FittedText {
+  text: string;
+  // Set when the end of the text was left out
+  truncated: boolean;
+  // Share of the original characters that were kept
+  keptFraction: number;
+}
+
+// Keeps as many whole sentences from the start of the text as fit in maxTokens
+export const fitToBudget = (text: string, maxTokens: number, kind: ProviderKind): FittedText => {
+  if (estimateTokens(text, kind) <= maxTokens) {
+    return { text, truncated: false, keptFraction: 1 };
+  }
+
+  const [head = ''] = chunkBySentences(text, Math.max(maxTokens - 2, 0), kind);
+  const length = text.replace(/\s+/g, ' ').trim().length || 1;
+  return {
+    text: head ? `${head} […]` : '',
+    truncated: true,
+    keptFraction: head.length / length,
+  };
+};
+
+export interface PromptUsage {
+  // Estimated tokens of the whole request
+  tokens: number;
+  // Tokens the request may use
+  budget: number;
+  truncated: boolean;
+  keptFraction: number;
+}
+
+// Builds a request around document text that is shortened, at a sentence
+// boundary, until the whole request fits the model's input budget
+export const fitPrompt = (
+  provider: AIProvider,
+  build: (content: string) => ChatMessage[],
+  content: string
+): { messages: ChatMessage[], usage: PromptUsage } => {
+  const budget = getInputBudget(provider);
+  const fixedTokens = estimateMessagesTokens(build(''), provider.kind);
+  const fitted = fitToBudget(content, Math.max(budget - fixedTokens, 0), provider.kind);
+  const messages = build(fitted.text);
+
+  return {
+    messages,
+    usage: {
+      tokens: estimateMessagesTokens(messages, provider.kind),
+      budget,
+      truncated: fitted.truncated,
+      keptFraction: fitted.keptFraction,
+    },
+  };
+};
+
+// The most recent messages whose estimated size stays within maxTokens,
+// starting at a user turn so the thread still reads as a conversation
+export const fitHistory = <T extends ChatMessage>(history: T[], maxTokens: number, kind: ProviderKind): T[] => {
+  let total = 0;
+  let start = history.length;
+  while (start > 0) {
+    const tokens = MESSAGE_OVERHEAD + estimateTokens(history[start - 1].content, kind);
+    if (total + tokens > maxTokens) break;
+    total += tokens;
+    start--;
+  }
+  while (start < history.length && history[start].role !== 'user') start++;
+  return history.slice(start);
+};
+
+export interface PageGroup {
+  pages: number[];
+  // The pages' text, each under a "[Page N]" heading
+  text: string;
+}
+
+// Packs consecutive pages into groups that each fit in maxTokens, so one
+// request can cover several short pages. A page too long for a request on its
+// own is split at sentence boundaries into several groups. Empty pages are
+// skipped.
+export const packPages = (
+  pageTexts: Record<number, string>,
+  pages: number[],
+  maxTokens: number,
+  kind: ProviderKind
+): PageGroup[] => {
+  const groups: PageGroup[] = [];
+
+  pages.forEach((pageNumber) => {
+    const text = pageTexts[pageNumber] ?? '';
+    if (!text.trim()) return;
+
+    const last = groups[groups.length - 1];
+    const labelled = `[Page ${pageNumber}]\n${text}`;
+    if (last && estimateTokens(`${last.text}\n\n${labelled}`, kind) <= maxTokens) {
+      last.pages.push(pageNumber);
+      last.text += `\n\n${labelled}`;
+      return;
+    }
+    chunkBySentences(text, maxTokens, kind).forEach((part) => {
+      groups.push({ pages: [pageNumber], text: `[Page ${pageNumber}]\n${part}` });
+    });
+  });
+
+  return groups;
+};
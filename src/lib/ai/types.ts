@@ -0,0 +1,58 @@
+export type ProviderKind = 'openai' | 'anthropic' | 'local';
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  // Overrides the model from the provider settings
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  signal?: AbortSignal;
+}
+
+export interface ModelInfo {
+  id: string;
+  // Context window in tokens, when the server reports it
+  contextWindow?: number;
+}
+
+export interface TokenLimits {
+  contextWindow: number;
+  maxOutputTokens: number;
+}
+
+export interface ProviderSettings {
+  kind: ProviderKind;
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  maxOutputTokens: number;
+  // Overrides the context window guessed from the model name; 0 means unset
+  contextWindow: number;
+}
+
+export interface AIProvider {
+  readonly kind: ProviderKind;
+  // Resolves with the full response text
+  complete(request: CompletionRequest): Promise<string>;
+  // Yields the response text in pieces as the server produces them
+  stream(request: CompletionRequest): AsyncGenerator<string, void, undefined>;
+  listModels(signal?: AbortSignal): Promise<ModelInfo[]>;
+  getTokenLimits(model?: string): TokenLimits;
+}
+
+export class AIProviderError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'AIProviderError';
+    this.status = status;
+  }
+}
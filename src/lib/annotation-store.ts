@@ -0,0 +1,51 @@
+import { ANNOTATIONS_STORE, openDatabase, requestToPromise, transactionDone } from './db';
+import { PageAnnotations, emptyPageAnnotations, hasAnnotations } from './annotations';
+
+interface StoredPageAnnotations {
+  fingerprint: string;
+  pageNumber: number;
+  annotations: PageAnnotations;
+  updatedAt: number;
+}
+
+export type DocumentAnnotations = Record<number, PageAnnotations>;
+
+export const loadDocumentAnnotations = async (fingerprint: string): Promise<DocumentAnnotations> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(ANNOTATIONS_STORE, 'readonly');
+  const index = transaction.objectStore(ANNOTATIONS_STORE).index('fingerprint');
+  const records = await requestToPromise<StoredPageAnnotations[]>(index.getAll(fingerprint));
+
+  const result: DocumentAnnotations = {};
+  records.forEach((record) => {
+    result[record.pageNumber] = { ...emptyPageAnnotations(), ...record.annotations };
+  });
+  return result;
+};
+
+export const savePageAnnotations = async (
+  fingerprint: string,
+  pageNumber: number,
+  annotations: PageAnnotations
+): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(ANNOTATIONS_STORE, 'readwrite');
+  const store = transaction.objectStore(ANNOTATIONS_STORE);
+
+  // Don't keep empty records around once everything on a page is deleted
+  // Keep the record while it still remembers imported PDF annotations, so
+  // deleted ones are not imported again on the next load
+  if (hasAnnotations(annotations) || annotations.importedRefs?.length) {
+    const record: StoredPageAnnotations = {
+      fingerprint,
+      pageNumber,
+      annotations,
+      updatedAt: Date.now(),
+    };
+    store.put(record);
+  } else {
+    store.delete([fingerprint, pageNumber]);
+  }
+
+  await transactionDone(transaction);
+};
@@ -0,0 +1,86 @@
+// A point in PDF user space
+export type PdfPoint = [number, number];
+
+// A rectangle in PDF user space as [xMin, yMin, xMax, yMax]
+export type PdfRect = [number, number, number, number];
+
+// A rectangle in viewport (CSS pixel) space
+export interface AnnotationRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Annotations read from the PDF file itself carry the object reference of the
+// annotation they came from (e.g. "12R"), so export can replace the original.
+interface ImportedAnnotation {
+  pdfRef?: string;
+}
+
+export interface HighlightAnnotation extends ImportedAnnotation {
+  id: string;
+  rects: PdfRect[];
+  color: string;
+  text?: string;
+}
+
+export interface InkAnnotation extends ImportedAnnotation {
+  id: string;
+  points: PdfPoint[];
+  color: string;
+  width: number;
+}
+
+export interface NoteAnnotation extends ImportedAnnotation {
+  id: string;
+  point: PdfPoint;
+  text: string;
+}
+
+export interface ShapeAnnotation extends ImportedAnnotation {
+  id: string;
+  type: 'rectangle';
+  rect: PdfRect;
+  color: string;
+}
+
+export interface PageAnnotations {
+  highlights: HighlightAnnotation[];
+  paths: InkAnnotation[];
+  notes: NoteAnnotation[];
+  shapes: ShapeAnnotation[];
+  // References of every PDF annotation already imported into this page,
+  // including ones the user has since deleted
+  importedRefs?: string[];
+}
+
+export type PageAnnotationsUpdater = (prev: PageAnnotations) => PageAnnotations;
+
+export const emptyPageAnnotations = (): PageAnnotations => ({
+  highlights: [],
+  paths: [],
+  notes: [],
+  shapes: [],
+});
+
+export type AnnotationKind = 'highlights' | 'paths' | 'notes' | 'shapes';
+
+export const removeAnnotation = (
+  annotations: PageAnnotations,
+  kind: AnnotationKind,
+  id: string
+): PageAnnotations => ({
+  ...annotations,
+  [kind]: (annotations[kind] as Array<{ id: string }>).filter(annotation => annotation.id !== id),
+});
+
+export const hasAnnotations = (annotations?: PageAnnotations) => {
+  if (!annotations) return false;
+  return (
+    annotations.highlights.length > 0 ||
+    annotations.paths.length > 0 ||
+    annotations.notes.length > 0 ||
+    annotations.shapes.length > 0
+  );
+};
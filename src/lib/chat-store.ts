@@ -0,0 +1,19 @@
+import { CHATS_STORE } from './db';
+import { createDocumentListStore } from './document-list-store';
+
+// Whether a question was asked about the current page or the whole document
+export type ChatScope = 'page' | 'document';
+
+export interface ChatThreadMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  // Page the question was asked on
+  pageNumber?: number;
+  scope?: ChatScope;
+  // Set on answers that were stopped before the model finished
+  stopped?: boolean;
+  createdAt: number;
+}
+
+export const chatStore = createDocumentListStore<ChatThreadMessage>(CHATS_STORE, 'messages', 'chat history');
@@ -0,0 +1,61 @@
+export interface Citation {
+  pageNumber: number;
+  // Verbatim words from the page, when the model quoted any
+  quote: string | null;
+}
+
+export type CitationSegment =
+  | { type: 'text', text: string }
+  | { type: 'citation', citation: Citation };
+
+// [p. 4], [p. 4: "quoted words"], [page 4, "quoted words"] and (p. 4).
+// Curly quotes are accepted since models like to produce them.
+const CITATION_PATTERN = /\[(?:p\.?|pp\.|page)\s*(\d+)(?:\s*[:,]\s*["“]([^"”\]]+)["”])?\s*\]|\(p\.\s*(\d+)\)/gi;
+
+// Splits an answer into plain text and citations, in order
+export const parseCitations = (text: string): CitationSegment[] => {
+  const segments: CitationSegment[] = [];
+  let cursor = 0;
+
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > cursor) {
+      segments.push({ type: 'text', text: text.slice(cursor, index) });
+    }
+    segments.push({
+      type: 'citation',
+      citation: { pageNumber: Number(match[1] ?? match[3]), quote: match[2]?.trim() || null },
+    });
+    cursor = index + match[0].length;
+  }
+
+  if (cursor < text.length) {
+    segments.push({ type: 'text', text: text.slice(cursor) });
+  }
+  return segments;
+};
+
+// Locates a quote in the page text, ignoring case and whitespace, since the
+// extracted text breaks lines and words differently from how models quote
+// them. Falls back to the start of the quote when the whole does not match.
+export const findQuoteRange = (pageText: string, quote: string): { start: number, end: number } | null => {
+  const positions: number[] = [];
+  let compactText = '';
+  for (let i = 0; i < pageText.length; i++) {
+    if (!/\s/.test(pageText[i])) {
+      compactText += pageText[i].toLowerCase();
+      positions.push(i);
+    }
+  }
+
+  const compactQuote = quote.replace(/\s+/g, '').toLowerCase();
+  if (!compactQuote) return null;
+
+  for (const candidate of [compactQuote, compactQuote.slice(0, 30)]) {
+    const index = compactText.indexOf(candidate);
+    if (index !== -1) {
+      return { start: positions[index], end: positions[index + candidate.length - 1] + 1 };
+    }
+  }
+  return null;
+};
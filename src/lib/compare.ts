@@ -0,0 +1,260 @@
+import { ChatMessage } from './ai';
+
+export interface DiffRange {
+  start: number;
+  end: number;
+}
+
+// One edit: words removed from the original, words added in the revision, or both
+export interface TextChange {
+  removed: string;
+  added: string;
+}
+
+// A page of the original matched with a page of the revision. Pages with no
+// counterpart have null on the other side and count as removed or added as a
+// whole.
+export interface PageComparison {
+  left: number | null;
+  right: number | null;
+  // Offsets into the original page text (see buildPageText) of removed words
+  deleted: DiffRange[];
+  // Offsets into the revised page text of added words
+  inserted: DiffRange[];
+  changes: TextChange[];
+}
+
+// Pages less alike than this are not paired, but shown as removed and added
+const MIN_PAGE_SIMILARITY = 0.2;
+// Word diffs above this many table cells give up and mark the rest replaced
+const MAX_DIFF_CELLS = 4000000;
+
+interface Word {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const tokenize = (text: string): Word[] =>
+  Array.from(text.matchAll(/\S+/g), match => ({
+    text: match[0],
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+
+// Jaccard similarity of the pages' vocabularies; two blank pages are alike
+const similarity = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  const [smaller, larger] = a.size < b.size ? [a, b] : [b, a];
+  smaller.forEach(word => larger.has(word) && shared++);
+  return shared / (a.size + b.size - shared);
+};
+
+// Pairs the pages of two versions in order, maximizing how alike the paired
+// pages are (Needleman–Wunsch with free gaps), so pages inserted or removed
+// in the revision do not shift everything after them out of line.
+export const alignPages = (leftTexts: string[], rightTexts: string[]) => {
+  const toSet = (text: string) => new Set(text.toLowerCase().match(/\S+/g) ?? []);
+  const leftWords = leftTexts.map(toSet);
+  const rightWords = rightTexts.map(toSet);
+  const n = leftTexts.length;
+  const m = rightTexts.length;
+  const width = m + 1;
+
+  // best[i][j]: best total for the pages from i and j onwards
+  const best = new Float64Array((n + 1) * width);
+  const scores = new Float64Array(n * m);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      const score = similarity(leftWords[i], rightWords[j]);
+      scores[i * m + j] = score;
+      const match = score >= MIN_PAGE_SIMILARITY ? score + best[(i + 1) * width + j + 1] : -1;
+      best[i * width + j] = Math.max(match, best[(i + 1) * width + j], best[i * width + j + 1]);
+    }
+  }
+
+  const pairs: Array<{ left: number | null, right: number | null }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m) {
+      const score = scores[i * m + j];
+      if (score >= MIN_PAGE_SIMILARITY && best[i * width + j] === score + best[(i + 1) * width + j + 1]) {
+        pairs.push({ left: i + 1, right: j + 1 });
+        i++;
+        j++;
+        continue;
+      }
+    }
+    if (j >= m || (i < n && best[i * width + j] === best[(i + 1) * width + j])) {
+      pairs.push({ left: i + 1, right: null });
+      i++;
+    } else {
+      pairs.push({ left: null, right: j + 1 });
+      j++;
+    }
+  }
+  return pairs;
+};
+
+// Word-level diff of two page texts. Runs of removed and added words between
+// unchanged words become one change each.
+export const diffTexts = (left: string, right: string) => {
+  const a = tokenize(left);
+  const b = tokenize(right);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix].text === b[prefix].text) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix].text === b[b.length - 1 - suffix].text
+  ) suffix++;
+
+  const n = a.length - prefix - suffix;
+  const m = b.length - prefix - suffix;
+  // Which of the middle words are kept, by longest common subsequence
+  const keptA = new Uint8Array(n);
+  const keptB = new Uint8Array(m);
+  if (n > 0 && m > 0 && (n + 1) * (m + 1) <= MAX_DIFF_CELLS) {
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] = a[prefix + i].text === b[prefix + j].text
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (a[prefix + i].text === b[prefix + j].text) {
+        keptA[i++] = 1;
+        keptB[j++] = 1;
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+  }
+
+  const deleted: DiffRange[] = [];
+  const inserted: DiffRange[] = [];
+  const changes: TextChange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && keptA[i] && keptB[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    const removedFrom = i;
+    while (i < n && !keptA[i]) i++;
+    const addedFrom = j;
+    while (j < m && !keptB[j]) j++;
+
+    const change: TextChange = { removed: '', added: '' };
+    if (i > removedFrom) {
+      const range = { start: a[prefix + removedFrom].start, end: a[prefix + i - 1].end };
+      deleted.push(range);
+      change.removed = left.slice(range.start, range.end);
+    }
+    if (j > addedFrom) {
+      const range = { start: b[prefix + addedFrom].start, end: b[prefix + j - 1].end };
+      inserted.push(range);
+      change.added = right.slice(range.start, range.end);
+    }
+    changes.push(change);
+  }
+
+  return { deleted, inserted, changes };
+};
+
+const wholePage = (text: string): DiffRange[] => (text.trim() ? [{ start: 0, end: text.length }] : []);
+
+// Aligns the pages of the two versions and diffs every pair, reporting how
+// many pairs are done as it goes
+export const compareDocuments = (
+  leftTexts: Record<number, string>,
+  leftPageCount: number,
+  rightTexts: Record<number, string>,
+  rightPageCount: number,
+  onProgress?: (completed: number, total: number) => void
+): PageComparison[] => {
+  const leftList = Array.from({ length: leftPageCount }, (_, i) => leftTexts[i + 1] ?? '');
+  const rightList = Array.from({ length: rightPageCount }, (_, i) => rightTexts[i + 1] ?? '');
+  const pairs = alignPages(leftList, rightList);
+
+  return pairs.map(({ left, right }, index): PageComparison => {
+    onProgress?.(index, pairs.length);
+    const leftText = left !== null ? leftList[left - 1] : '';
+    const rightText = right !== null ? rightList[right - 1] : '';
+    if (left !== null && right !== null) {
+      return { left, right, ...diffTexts(leftText, rightText) };
+    }
+    return {
+      left,
+      right,
+      deleted: wholePage(leftText),
+      inserted: wholePage(rightText),
+      changes: leftText.trim() || rightText.trim() ? [{ removed: leftText.trim(), added: rightText.trim() }] : [],
+    };
+  });
+};
+
+// Longest excerpt of a change put in the prompt
+const MAX_EXCERPT = 400;
+
+const excerpt = (text: string) => {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > MAX_EXCERPT ? `${clean.slice(0, MAX_EXCERPT)}…` : clean;
+};
+
+// The changes as a plain list for the model, page by page of the original.
+// With a page number, only the changes on that page and pages added after it.
+export const describeChanges = (comparison: PageComparison[], pageNumber?: number) => {
+  const blocks: string[] = [];
+  let previousLeft = 0;
+
+  comparison.forEach(({ left, right, changes }) => {
+    if (left !== null) previousLeft = left;
+    if (changes.length === 0) return;
+    if (pageNumber !== undefined && Math.max(previousLeft, 1) !== pageNumber) return;
+
+    if (right === null) {
+      blocks.push(`[Page ${left}] Removed in the revision: "${excerpt(changes[0].removed)}"`);
+    } else if (left === null) {
+      const position = previousLeft > 0 ? `After page ${previousLeft}` : 'Before page 1';
+      blocks.push(`[${position}] Page ${right} of the revision is new: "${excerpt(changes[0].added)}"`);
+    } else {
+      const lines = changes.map(({ removed, added }) =>
+        removed && added
+          ? `~ "${excerpt(removed)}" became "${excerpt(added)}"`
+          : removed ? `- removed "${excerpt(removed)}"` : `+ added "${excerpt(added)}"`
+      );
+      blocks.push(`[Page ${left}, page ${right} of the revision]\n${lines.join('\n')}`);
+    }
+  });
+
+  return blocks.join('\n\n');
+};
+
+const REVIEWER_SYSTEM_PROMPT =
+  'You review revisions of documents such as contracts and policies. Be precise and neutral, and never describe changes that are not in the list.';
+
+export const buildChangeSummaryMessages = (changeList: string, originalTitle: string, revisionTitle: string): ChatMessage[] => [
+  { role: 'system', content: REVIEWER_SYSTEM_PROMPT },
+  {
+    role: 'user',
+    content:
+      `Summarize the changes from "${originalTitle}" (the original) to "${revisionTitle}" (the revision). ` +
+      'Group related edits, lead with the ones that change meaning such as amounts, dates, parties, obligations and deadlines, ' +
+      'and mention pure rewording or formatting only briefly. Cite the page of the original for each point as [p. N].\n\n' +
+      `Changes, by page of the original:\n${changeList}`,
+  },
+];
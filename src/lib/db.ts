@@ -0,0 +1,70 @@
+const DB_NAME = 'breezy-pdf-reader';
+const DB_VERSION = 5;
+
+export const ANNOTATIONS_STORE = 'annotations';
+export const CHATS_STORE = 'chats';
+export const STUDY_STORE = 'study';
+export const GLOSSARY_STORE = 'glossaries';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Opens (and on first use creates or upgrades) the reader's IndexedDB database.
+// The connection is cached for the lifetime of the tab.
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this environment'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ANNOTATIONS_STORE)) {
+        const store = db.createObjectStore(ANNOTATIONS_STORE, {
+          keyPath: ['fingerprint', 'pageNumber'],
+        });
+        store.createIndex('fingerprint', 'fingerprint', { unique: false });
+      } else if (event.oldVersion < 2) {
+        // Version 1 stored geometry in CSS pixels at an unknown scale, which
+        // cannot be mapped back onto the page
+        request.transaction!.objectStore(ANNOTATIONS_STORE).clear();
+      }
+      if (!db.objectStoreNames.contains(CHATS_STORE)) {
+        db.createObjectStore(CHATS_STORE, { keyPath: 'fingerprint' });
+      }
+      if (!db.objectStoreNames.contains(STUDY_STORE)) {
+        db.createObjectStore(STUDY_STORE, { keyPath: 'fingerprint' });
+      }
+      if (!db.objectStoreNames.contains(GLOSSARY_STORE)) {
+        db.createObjectStore(GLOSSARY_STORE, { keyPath: 'fingerprint' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later call to retry if opening failed
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
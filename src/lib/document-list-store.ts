@@ -0,0 +1,38 @@
+import { openDatabase, requestToPromise, transactionDone } from './db';
+
+// A list kept per document in an object store keyed by the document's
+// fingerprint. Records look like { fingerprint, [field]: items, updatedAt };
+// an empty list deletes the record.
+export interface DocumentListStore<T> {
+  // What the list is, for error messages, e.g. "chat history"
+  label: string;
+  load: (fingerprint: string) => Promise<T[]>;
+  save: (fingerprint: string, items: T[]) => Promise<void>;
+}
+
+export const createDocumentListStore = <T>(storeName: string, field: string, label: string): DocumentListStore<T> => ({
+  label,
+
+  load: async (fingerprint) => {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, 'readonly');
+    const record = await requestToPromise<Record<string, unknown> | undefined>(
+      transaction.objectStore(storeName).get(fingerprint)
+    );
+    return (record?.[field] as T[] | undefined) ?? [];
+  },
+
+  save: async (fingerprint, items) => {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+
+    if (items.length > 0) {
+      store.put({ fingerprint, [field]: items, updatedAt: Date.now() });
+    } else {
+      store.delete(fingerprint);
+    }
+
+    await transactionDone(transaction);
+  },
+});
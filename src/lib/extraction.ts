@@ -0,0 +1,286 @@
+import { z } from 'zod';
+import { AIProvider, ChatMessage } from './ai';
+import { getInputBudget, packPages } from './ai/tokens';
+import { createId } from './utils';
+
+export type FieldType = 'string' | 'number' | 'boolean' | 'date';
+
+export const FIELD_TYPES: Array<{ value: FieldType, label: string }> = [
+  { value: 'string', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'boolean', label: 'Yes/no' },
+  { value: 'date', label: 'Date' },
+];
+
+export interface ExtractionField {
+  id: string;
+  name: string;
+  type: FieldType;
+  description: string;
+  required: boolean;
+}
+
+// "record" pulls one set of fields out of the pages (an invoice header);
+// "rows" pulls every matching item (the lines of a table)
+export type ExtractionMode = 'record' | 'rows';
+
+export interface ExtractionSchema {
+  fields: ExtractionField[];
+  mode: ExtractionMode;
+}
+
+export type ExtractedValue = string | number | boolean | null;
+
+export interface ExtractedRow {
+  // Pages the row was read from
+  pages: number[];
+  values: Record<string, ExtractedValue>;
+}
+
+export interface ExtractionError {
+  pages: number[];
+  message: string;
+}
+
+export interface ExtractionResult {
+  rows: ExtractedRow[];
+  errors: ExtractionError[];
+}
+
+export const createField = (changes: Partial<ExtractionField> = {}): ExtractionField => ({
+  id: createId(),
+  name: '',
+  type: 'string',
+  description: '',
+  required: false,
+  ...changes,
+});
+
+export const DEFAULT_EXTRACTION_SCHEMA: ExtractionSchema = {
+  mode: 'record',
+  fields: [
+    createField({ name: 'invoice_number', description: 'Invoice or reference number', required: true }),
+    createField({ name: 'invoice_date', type: 'date', description: 'Date the invoice was issued' }),
+    createField({ name: 'vendor', description: 'Company that issued the invoice' }),
+    createField({ name: 'total', type: 'number', description: 'Total amount due, including tax' }),
+  ],
+};
+
+const STORAGE_KEY = 'breezy-pdf-reader:extraction-schema';
+
+export const loadExtractionSchema = (): ExtractionSchema => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (!stored || !Array.isArray(stored.fields)) return DEFAULT_EXTRACTION_SCHEMA;
+    return {
+      mode: stored.mode === 'rows' ? 'rows' : 'record',
+      fields: stored.fields.map((field: Partial<ExtractionField>) => createField({
+        name: String(field.name ?? ''),
+        type: FIELD_TYPES.some(type => type.value === field.type) ? field.type : 'string',
+        description: String(field.description ?? ''),
+        required: !!field.required,
+      })),
+    };
+  } catch {
+    return DEFAULT_EXTRACTION_SCHEMA;
+  }
+};
+
+export const saveExtractionSchema = (schema: ExtractionSchema) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(schema));
+};
+
+// Field names become JSON keys, so they must be usable as identifiers
+export const isValidFieldName = (name: string) => /^[A-Za-z_][A-Za-z0-9_]*$/.test(name);
+
+// Numbers often come back formatted as in the document ("$1,234.50")
+const numberValue = z.preprocess((value) => {
+  if (typeof value !== 'string') return value;
+  const cleaned = value.replace(/[^\d.,-]/g, '').replace(/,(?=\d{3}(\D|$))/g, '').replace(',', '.');
+  return cleaned && !Number.isNaN(Number(cleaned)) ? Number(cleaned) : value;
+}, z.number());
+
+const booleanValue = z.preprocess((value) => {
+  if (typeof value !== 'string') return value;
+  const normalized = value.trim().toLowerCase();
+  if (['true', 'yes', 'y'].includes(normalized)) return true;
+  if (['false', 'no', 'n'].includes(normalized)) return false;
+  return value;
+}, z.boolean());
+
+const dateValue = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date written as YYYY-MM-DD');
+
+const FIELD_VALIDATORS: Record<FieldType, z.ZodTypeAny> = {
+  string: z.string(),
+  number: numberValue,
+  boolean: booleanValue,
+  date: dateValue,
+};
+
+// The zod schema a model reply must match: { rows: [{ ...fields }] }, with
+// optional fields allowed to be null or missing
+export const buildReplySchema = (fields: ExtractionField[]) => {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  fields.forEach((field) => {
+    const validator = FIELD_VALIDATORS[field.type];
+    shape[field.name] = field.required ? validator : validator.nullable().optional();
+  });
+  return z.object({ rows: z.array(z.object(shape)) });
+};
+
+const TYPE_DESCRIPTIONS: Record<FieldType, string> = {
+  string: 'string',
+  number: 'number (no currency symbols or thousands separators)',
+  boolean: 'true or false',
+  date: 'date as "YYYY-MM-DD"',
+};
+
+const EXTRACTOR_SYSTEM_PROMPT =
+  'You extract structured data from document text. Reply with a single JSON object and nothing else: no explanations and no code fences. ' +
+  'Only use values that appear in the text; never guess.';
+
+export const buildExtractionMessages = (schema: ExtractionSchema, pages: number[], text: string): ChatMessage[] => {
+  const fieldList = schema.fields
+    .map(field =>
+      `- "${field.name}": ${TYPE_DESCRIPTIONS[field.type]}${field.required ? ', required' : ', or null when not found'}` +
+      (field.description ? ` — ${field.description}` : '')
+    )
+    .join('\n');
+  const task = schema.mode === 'record'
+    ? 'Put exactly one object in "rows", holding the fields for this text.'
+    : 'Put one object in "rows" for every item or table row in the text, in the order they appear. Use an empty list if there are none.';
+  const pageLabel = pages.length === 1 ? `page ${pages[0]}` : `pages ${pages[0]}–${pages[pages.length - 1]}`;
+
+  return [
+    { role: 'system', content: EXTRACTOR_SYSTEM_PROMPT },
+    {
+      role: 'user',
+      content:
+        `Extract these fields from the text of ${pageLabel}:\n${fieldList}\n\n` +
+        `Reply as {"rows": [...]}. ${task}\n\nText:\n${text}`,
+    },
+  ];
+};
+
+// Pulls the JSON object out of a reply, tolerating code fences and chatter
+export const parseJsonReply = (reply: string): unknown => {
+  const fenced = reply.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const body = fenced ? fenced[1] : reply;
+  const start = body.search(/[{[]/);
+  const end = Math.max(body.lastIndexOf('}'), body.lastIndexOf(']'));
+  if (start === -1 || end < start) {
+    throw new Error('The reply contained no JSON.');
+  }
+
+  const parsed = JSON.parse(body.slice(start, end + 1));
+  // A bare list of rows is accepted as well
+  return Array.isArray(parsed) ? { rows: parsed } : parsed;
+};
+
+const formatIssues = (error: z.ZodError) =>
+  error.issues
+    .slice(0, 5)
+    .map(issue => `${issue.path.join('.') || 'reply'}: ${issue.message}`)
+    .join('; ');
+
+// Tokens set aside for the field list and instructions
+const INSTRUCTION_TOKENS = 400;
+
+interface ExtractOptions {
+  provider: AIProvider;
+  schema: ExtractionSchema;
+  pageTexts: Record<number, string>;
+  pages: number[];
+  signal?: AbortSignal;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+// Runs the schema over the pages, packing as many consecutive pages into each
+// request as the model's context allows. Every reply is validated against the
+// schema; an invalid reply is sent back once with the problems listed before
+// that group of pages is reported as failed. In record mode the groups'
+// records are merged, earlier pages taking precedence.
+export const extractData = async ({
+  provider,
+  schema,
+  pageTexts,
+  pages,
+  signal,
+  onProgress,
+}: ExtractOptions): Promise<ExtractionResult> => {
+  const replySchema = buildReplySchema(schema.fields);
+  const budget = Math.max(getInputBudget(provider) - INSTRUCTION_TOKENS, 1);
+
+  const groups = packPages(pageTexts, pages, budget, provider.kind);
+
+  const rows: ExtractedRow[] = [];
+  const errors: ExtractionError[] = [];
+  onProgress?.(0, groups.length);
+
+  for (const [index, group] of groups.entries()) {
+    const messages = buildExtractionMessages(schema, group.pages, group.text);
+    let problem = '';
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      signal?.throwIfAborted();
+      const reply = await provider.complete({ messages, temperature: 0, signal });
+
+      let result: z.SafeParseReturnType<unknown, z.infer<typeof replySchema>>;
+      try {
+        result = replySchema.safeParse(parseJsonReply(reply));
+      } catch (error) {
+        problem = error instanceof Error ? error.message : 'The reply was not valid JSON.';
+        messages.push({ role: 'assistant', content: reply }, { role: 'user', content: `${problem} Reply again with only the JSON object.` });
+        continue;
+      }
+
+      if (result.success) {
+        result.data.rows.forEach(values => rows.push({ pages: group.pages, values: values as ExtractedRow['values'] }));
+        problem = '';
+        break;
+      }
+      problem = formatIssues(result.error);
+      messages.push(
+        { role: 'assistant', content: reply },
+        { role: 'user', content: `The JSON does not match the schema: ${problem}. Reply again with corrected JSON only.` }
+      );
+    }
+
+    if (problem) errors.push({ pages: group.pages, message: problem });
+    onProgress?.(index + 1, groups.length);
+  }
+
+  if (schema.mode === 'record' && rows.length > 1) {
+    const merged: ExtractedRow = { pages: [], values: {} };
+    rows.forEach((row) => {
+      row.pages.forEach(page => !merged.pages.includes(page) && merged.pages.push(page));
+      Object.entries(row.values).forEach(([name, value]) => {
+        if (merged.values[name] === undefined || merged.values[name] === null) merged.values[name] = value;
+      });
+    });
+    return { rows: [merged], errors };
+  }
+  return { rows, errors };
+};
+
+// RFC 4180 quoting: fields with commas, quotes or line breaks are quoted
+const csvCell = (value: ExtractedValue | undefined) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const rowsToCsv = (fields: ExtractionField[], rows: ExtractedRow[]) =>
+  [
+    ['page', ...fields.map(field => field.name)].map(csvCell).join(','),
+    ...rows.map(row => [row.pages.join(' '), ...fields.map(field => row.values[field.name])].map(csvCell).join(',')),
+  ].join('\r\n');
+
+export const rowsToJson = (fields: ExtractionField[], rows: ExtractedRow[]) =>
+  JSON.stringify(
+    rows.map(row => ({
+      pages: row.pages,
+      ...Object.fromEntries(fields.map(field => [field.name, row.values[field.name] ?? null])),
+    })),
+    null,
+    2
+  );
@@ -0,0 +1,18 @@
+import { GLOSSARY_STORE } from './db';
+import { createDocumentListStore } from './document-list-store';
+
+export type GlossaryTermKind = 'term' | 'acronym';
+
+export interface GlossaryEntry {
+  id: string;
+  // As written in the document, e.g. "TLS" or "Write-ahead log"
+  term: string;
+  kind: GlossaryTermKind;
+  // What an acronym stands for
+  expansion: string | null;
+  definition: string;
+  // Page the definition was taken from
+  definedOn: number;
+}
+
+export const glossaryStore = createDocumentListStore<GlossaryEntry>(GLOSSARY_STORE, 'entries', 'glossary');
@@ -0,0 +1,194 @@
+import { z } from 'zod';
+import { AIProvider, ChatMessage } from './ai';
+import { getInputBudget, packPages } from './ai/tokens';
+import { parseJsonReply } from './extraction';
+import { GlossaryEntry } from './glossary-store';
+import { createId } from './utils';
+
+// At most this many terms are asked for in one request
+const MAX_TERMS_PER_REQUEST = 30;
+// Tokens set aside for the instructions
+const INSTRUCTION_TOKENS = 400;
+
+const GLOSSARY_SYSTEM_PROMPT =
+  'You build glossaries for technical documents. Reply with a single JSON object and nothing else: no explanations and no code fences.';
+
+const termSchema = z.object({
+  term: z.string().trim().min(1).max(80),
+  kind: z.enum(['term', 'acronym']).catch('term'),
+  expansion: z.string().nullish(),
+  definition: z.string().trim().min(1),
+  page: z.coerce.number().int(),
+});
+
+export const buildGlossaryMessages = (pages: number[], text: string): ChatMessage[] => {
+  const pageLabel = pages.length === 1 ? `page ${pages[0]}` : `pages ${pages[0]}–${pages[pages.length - 1]}`;
+
+  return [
+    { role: 'system', content: GLOSSARY_SYSTEM_PROMPT },
+    {
+      role: 'user',
+      content:
+        `List the technical terms, jargon and acronyms in the text of ${pageLabel}, up to ${MAX_TERMS_PER_REQUEST}. ` +
+        'Each page starts with a [Page N] heading. Skip everyday words.\n\n' +
+        'Reply as {"terms": [{"term": "...", "kind": "term", "expansion": null, "definition": "...", "page": 3}]}. ' +
+        'Write "term" in its singular form exactly as it appears in the text. "kind" is "acronym" for abbreviations, with "expansion" ' +
+        'saying what they stand for; otherwise it is "term" and "expansion" is null. Define each term in one or two sentences, following ' +
+        'how the text defines or uses it. "page" is the page the definition is based on. Use an empty list if there are no terms.' +
+        `\n\nText:\n${text}`,
+    },
+  ];
+};
+
+export interface TermMatcher {
+  entryId: string;
+  pattern: RegExp;
+}
+
+export interface TermOccurrence {
+  start: number;
+  end: number;
+  entryId: string;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// One pattern per entry, matching whole words only. Acronyms match in their
+// exact case so "IT" does not underline "it"; other terms match in any case.
+// Both match their plurals.
+export const buildTermMatchers = (entries: GlossaryEntry[]): TermMatcher[] =>
+  entries.map((entry) => {
+    const words = entry.term.trim().split(/\s+/).map(escapeRegExp).join('\\s+');
+    const plural = entry.kind === 'acronym' ? 's?' : '(?:s|es)?';
+    return {
+      entryId: entry.id,
+      pattern: new RegExp(`(?<![\\p{L}\\p{N}])${words}${plural}(?![\\p{L}\\p{N}])`, entry.kind === 'acronym' ? 'gu' : 'giu'),
+    };
+  });
+
+// Where the terms occur in a text, without overlaps. Of two overlapping
+// terms ("TLS" and "TLS handshake") the one starting first, or else the
+// longer one, is kept.
+export const findTermOccurrences = (text: string, matchers: TermMatcher[]): TermOccurrence[] => {
+  const found: TermOccurrence[] = [];
+  matchers.forEach(({ entryId, pattern }) => {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      found.push({ start, end: start + match[0].length, entryId });
+    }
+  });
+  found.sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const occurrences: TermOccurrence[] = [];
+  found.forEach((occurrence) => {
+    const last = occurrences[occurrences.length - 1];
+    if (!last || occurrence.start >= last.end) occurrences.push(occurrence);
+  });
+  return occurrences;
+};
+
+// Pages each entry occurs on, in page order
+export const getTermPages = (pageTexts: Record<number, string>, matchers: TermMatcher[]) => {
+  const pages: Record<string, number[]> = {};
+  Object.keys(pageTexts).map(Number).sort((a, b) => a - b).forEach((pageNumber) => {
+    matchers.forEach(({ entryId, pattern }) => {
+      pattern.lastIndex = 0;
+      if (pattern.test(pageTexts[pageNumber])) (pages[entryId] ??= []).push(pageNumber);
+    });
+  });
+  return pages;
+};
+
+export const sortGlossary = (entries: GlossaryEntry[]) =>
+  [...entries].sort((a, b) => a.term.localeCompare(b.term, undefined, { sensitivity: 'base' }));
+
+const termKey = (term: string) => term.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export interface GlossaryResult {
+  entries: GlossaryEntry[];
+  // Pages whose reply could not be read
+  failedPages: number[];
+}
+
+interface BuildGlossaryOptions {
+  provider: AIProvider;
+  pageTexts: Record<number, string>;
+  pages: number[];
+  // Entries already in the glossary; terms found again are skipped
+  existing: GlossaryEntry[];
+  signal?: AbortSignal;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+// Collects terms and their definitions page group by page group, packing as
+// many pages into each request as the model's context allows. A term is kept
+// with the first definition found for it, and only if it really occurs in
+// the text, so every entry can be underlined on its pages.
+export const buildGlossary = async ({
+  provider,
+  pageTexts,
+  pages,
+  existing,
+  signal,
+  onProgress,
+}: BuildGlossaryOptions): Promise<GlossaryResult> => {
+  const budget = Math.max(getInputBudget(provider) - INSTRUCTION_TOKENS, 1);
+  const groups = packPages(pageTexts, pages, budget, provider.kind);
+
+  const seen = new Set(existing.map(entry => termKey(entry.term)));
+  const entries: GlossaryEntry[] = [];
+  const failedPages: number[] = [];
+  onProgress?.(0, groups.length);
+
+  for (const [index, group] of groups.entries()) {
+    const messages = buildGlossaryMessages(group.pages, group.text);
+    let items: unknown[] | null = null;
+
+    for (let attempt = 0; attempt < 2 && items === null; attempt++) {
+      signal?.throwIfAborted();
+      const reply = await provider.complete({ messages, temperature: 0, signal });
+
+      try {
+        const parsed = parseJsonReply(reply) as { terms?: unknown, rows?: unknown };
+        const list = parsed?.terms ?? parsed?.rows;
+        if (Array.isArray(list)) items = list;
+      } catch {
+        // Asked for again below
+      }
+      if (items === null) {
+        messages.push(
+          { role: 'assistant', content: reply },
+          { role: 'user', content: 'That reply could not be read. Reply again with only the JSON object, as {"terms": [...]}.' }
+        );
+      }
+    }
+
+    if (items === null) {
+      group.pages.forEach(page => !failedPages.includes(page) && failedPages.push(page));
+    }
+    (items ?? []).forEach((item) => {
+      const parsed = termSchema.safeParse(item);
+      if (!parsed.success) return;
+
+      const { term, kind, expansion, definition, page } = parsed.data;
+      const key = termKey(term);
+      if (seen.has(key)) return;
+
+      const entry: GlossaryEntry = {
+        id: createId(),
+        term,
+        kind,
+        expansion: kind === 'acronym' ? expansion?.trim() || null : null,
+        definition,
+        definedOn: group.pages.includes(page) ? page : group.pages[0],
+      };
+      if (findTermOccurrences(group.text, buildTermMatchers([entry])).length === 0) return;
+
+      seen.add(key);
+      entries.push(entry);
+    });
+    onProgress?.(index + 1, groups.length);
+  }
+
+  return { entries, failedPages };
+};
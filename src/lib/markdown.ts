@@ -0,0 +1,42 @@
+import { defaultSchema } from 'rehype-sanitize';
+import { Citation, parseCitations } from './citations';
+
+const CITATION_HREF_PREFIX = '#cite-';
+
+// Model output is untrusted: only the elements and attributes of the default
+// (GitHub-like) schema survive, plus the classes remark-math puts on math so
+// KaTeX can render it afterwards
+export const markdownSanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [['className', /^language-./, 'math-inline', 'math-display']],
+  },
+};
+
+// Rewrites citations as Markdown links with a private fragment, so they
+// survive Markdown parsing and can be rendered as chips
+export const citationsToLinks = (text: string) =>
+  parseCitations(text)
+    .map((segment) => {
+      if (segment.type === 'text') return segment.text;
+      const { pageNumber, quote } = segment.citation;
+      // Parentheses would end the link destination early
+      const encodedQuote = quote ? encodeURIComponent(quote).replace(/[()]/g, c => `%${c.charCodeAt(0).toString(16)}`) : '';
+      const href = `${CITATION_HREF_PREFIX}${pageNumber}${encodedQuote ? `-${encodedQuote}` : ''}`;
+      return `[p. ${pageNumber}](${href})`;
+    })
+    .join('');
+
+export const parseCitationHref = (href: string | undefined): Citation | null => {
+  if (!href?.startsWith(CITATION_HREF_PREFIX)) return null;
+
+  const match = /^(\d+)(?:-(.*))?$/.exec(href.slice(CITATION_HREF_PREFIX.length));
+  if (!match) return null;
+
+  try {
+    return { pageNumber: Number(match[1]), quote: match[2] ? decodeURIComponent(match[2]) : null };
+  } catch {
+    return { pageNumber: Number(match[1]), quote: null };
+  }
+};
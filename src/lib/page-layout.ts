@@ -0,0 +1,90 @@
+export type ViewMode = 'single' | 'continuous' | 'spread' | 'book';
+
+export const identityPageOrder = (totalPages: number) =>
+  Array.from({ length: totalPages }, (_, i) => i + 1);
+
+export const isIdentityPageOrder = (pageOrder: number[]) =>
+  pageOrder.every((pageNumber, i) => pageNumber === i + 1);
+
+// Moves the page at index `from` so that it ends up at index `to`
+export const movePage = (pageOrder: number[], from: number, to: number) => {
+  const next = [...pageOrder];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+export const isSpreadMode = (mode: ViewMode) => mode === 'spread' || mode === 'book';
+
+// Display positions shown together with the given one. In 'spread' positions
+// pair up as 1-2, 3-4, ...; in 'book' the cover stands alone on the right and
+// positions pair up as 2-3, 4-5, ... so odd ones always fall on the right.
+export const getSpreadPages = (position: number, totalPages: number, mode: ViewMode): number[] => {
+  if (!isSpreadMode(mode) || totalPages <= 0) return [position];
+
+  let first: number;
+  if (mode === 'book') {
+    if (position === 1) return [1];
+    first = position % 2 === 0 ? position : position - 1;
+  } else {
+    first = position % 2 === 1 ? position : position - 1;
+  }
+
+  return [first, first + 1].filter(page => page >= 1 && page <= totalPages);
+};
+
+// Which side of the spread a lone page sits on: the book cover goes right, a
+// trailing page goes left
+export const getLonePageSide = (position: number, mode: ViewMode): 'left' | 'right' =>
+  mode === 'book' && position % 2 === 1 ? 'right' : 'left';
+
+export type ZoomMode = 'custom' | 'fit-width' | 'fit-page' | 'auto';
+
+export const MIN_SCALE = 0.25;
+export const MAX_SCALE = 3;
+
+// Space the viewer keeps around pages: the my-4 page margins, the gutter
+// between the pages of a spread, and room for a vertical scrollbar
+const PAGE_MARGIN_X = 16;
+const PAGE_MARGIN_Y = 32;
+const SPREAD_GAP = 8;
+const SCROLLBAR_PADDING = 16;
+
+// Auto zoom never magnifies beyond this, so small pages aren't blown up
+const MAX_AUTO_SCALE = 1.25;
+
+export const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+// Scale that fits the given unscaled page sizes (one page, or the pages of a
+// spread laid side by side) into a container of the given size
+export const computeFitScale = (
+  mode: Exclude<ZoomMode, 'custom'>,
+  pageSizes: Array<{ width: number, height: number }>,
+  container: { width: number, height: number }
+) => {
+  const contentWidth = pageSizes.reduce((sum, size) => sum + size.width, 0);
+  const contentHeight = Math.max(...pageSizes.map(size => size.height));
+  const gaps = SPREAD_GAP * (pageSizes.length - 1);
+
+  const widthScale = (container.width - PAGE_MARGIN_X * 2 - SCROLLBAR_PADDING - gaps) / contentWidth;
+  const heightScale = (container.height - PAGE_MARGIN_Y) / contentHeight;
+
+  let scale: number;
+  switch (mode) {
+    case 'fit-width':
+      scale = widthScale;
+      break;
+    case 'fit-page':
+      scale = Math.min(widthScale, heightScale);
+      break;
+    case 'auto': {
+      // Portrait pages fit their width; landscape pages and spreads fit whole
+      const isPortrait = contentWidth <= contentHeight;
+      scale = Math.min(MAX_AUTO_SCALE, isPortrait ? widthScale : Math.min(widthScale, heightScale));
+      break;
+    }
+  }
+
+  // Round so a resize jitter of a pixel doesn't trigger a re-render
+  return clampScale(Math.floor(scale * 100) / 100);
+};
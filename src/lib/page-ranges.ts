@@ -0,0 +1,42 @@
+// Parses a page list like "1-3, 5, 8-" into sorted page numbers. An open
+// range runs to the last page. Throws with a readable message on bad input.
+export const parsePageRanges = (input: string, totalPages: number): number[] => {
+  const pages = new Set<number>();
+
+  input.split(',').map(part => part.trim()).filter(Boolean).forEach((part) => {
+    const match = part.match(/^(\d+)?\s*(?:(-|–)\s*(\d+)?)?$/);
+    if (!match || (!match[1] && !match[3])) {
+      throw new Error(`"${part}" is not a page or a page range.`);
+    }
+
+    const start = match[1] ? Number(match[1]) : 1;
+    const end = match[2] ? (match[3] ? Number(match[3]) : totalPages) : start;
+    if (start < 1 || end > totalPages || start > end) {
+      throw new Error(`Pages "${part}" are outside 1–${totalPages}.`);
+    }
+    for (let page = start; page <= end; page++) pages.add(page);
+  });
+
+  if (pages.size === 0) {
+    throw new Error('Enter at least one page.');
+  }
+  return Array.from(pages).sort((a, b) => a - b);
+};
+
+// Writes page numbers back as compact ranges, e.g. [1, 2, 3, 5] as "1-3, 5"
+export const formatPageRanges = (pages: number[]) => {
+  const ranges: string[] = [];
+  let start = pages[0];
+  let previous = pages[0];
+
+  pages.slice(1).concat(Infinity).forEach((page) => {
+    if (page === previous + 1) {
+      previous = page;
+      return;
+    }
+    ranges.push(start === previous ? String(start) : `${start}-${previous}`);
+    start = page;
+    previous = page;
+  });
+  return pages.length > 0 ? ranges.join(', ') : '';
+};
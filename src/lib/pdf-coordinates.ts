@@ -0,0 +1,37 @@
+import { PageViewport } from 'pdfjs-dist';
+import { AnnotationRect, PdfPoint, PdfRect } from './annotations';
+
+// Annotation geometry is stored in PDF user space (points, origin bottom-left)
+// and projected through the page viewport whenever it is drawn, so it follows
+// the page through any scale or rotation.
+
+export const normalizeRect = ([x1, y1, x2, y2]: number[]): PdfRect => [
+  Math.min(x1, x2),
+  Math.min(y1, y2),
+  Math.max(x1, x2),
+  Math.max(y1, y2),
+];
+
+export const toPdfPoint = (viewport: PageViewport, x: number, y: number): PdfPoint => {
+  const [px, py] = viewport.convertToPdfPoint(x, y);
+  return [px, py];
+};
+
+export const toViewportPoint = (viewport: PageViewport, [x, y]: PdfPoint): [number, number] => {
+  const [vx, vy] = viewport.convertToViewportPoint(x, y);
+  return [vx, vy];
+};
+
+export const toPdfRect = (viewport: PageViewport, rect: AnnotationRect): PdfRect => {
+  const [x1, y1] = viewport.convertToPdfPoint(rect.x, rect.y);
+  const [x2, y2] = viewport.convertToPdfPoint(rect.x + rect.width, rect.y + rect.height);
+  return normalizeRect([x1, y1, x2, y2]);
+};
+
+export const toViewportRect = (viewport: PageViewport, rect: PdfRect): AnnotationRect => {
+  const [x1, y1, x2, y2] = normalizeRect(viewport.convertToViewportRectangle(rect));
+  return { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+};
+
+export const toSvgPath = (points: Array<[number, number]>) =>
+  points.map(([x, y], i) => `${i === 0 ? 'M' : 'L'} ${x} ${y}`).join(' ');
@@ -0,0 +1,306 @@
+import {
+  PDFArray,
+  PDFContext,
+  PDFDict,
+  PDFDocument,
+  PDFFont,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFPage,
+  PDFPageLeaf,
+  PDFRef,
+  PDFString,
+  StandardFonts,
+} from 'pdf-lib';
+import { HighlightAnnotation, InkAnnotation, NoteAnnotation, PdfRect, ShapeAnnotation } from './annotations';
+import { DocumentAnnotations } from './annotation-store';
+import { normalizeRect } from './pdf-coordinates';
+import { isIdentityPageOrder } from './page-layout';
+import { downloadBlob } from './download';
+
+const NOTE_FONT_SIZE = 10;
+const NOTE_PADDING = 4;
+const SHAPE_BORDER_WIDTH = 1.5;
+// Drawn in place of characters the note font has no glyph for
+const MISSING_GLYPH = '?';
+
+type RGB = [number, number, number];
+type DictLiteral = NonNullable<Parameters<PDFContext['flateStream']>[1]>;
+
+const hexToRgb = (hex: string): RGB => {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map(c => c + c).join('') : value;
+  const int = parseInt(full, 16);
+  if (Number.isNaN(int)) return [0, 0, 0];
+  return [((int >> 16) & 255) / 255, ((int >> 8) & 255) / 255, (int & 255) / 255];
+};
+
+const formatNumber = (n: number) => Number(n.toFixed(3)).toString();
+const formatColor = (rgb: RGB) => rgb.map(formatNumber).join(' ');
+
+// Union of a set of rects, used as the annotation /Rect and appearance /BBox
+const boundingRect = (rects: number[][]): PdfRect => {
+  const normalized = rects.map(normalizeRect);
+  return [
+    Math.min(...normalized.map(r => r[0])),
+    Math.min(...normalized.map(r => r[1])),
+    Math.max(...normalized.map(r => r[2])),
+    Math.max(...normalized.map(r => r[3])),
+  ];
+};
+
+const expandRect = ([x1, y1, x2, y2]: PdfRect, by: number): PdfRect => [x1 - by, y1 - by, x2 + by, y2 + by];
+
+// pdf.js identifies annotations by object reference as "12R" (or "12R3" for a
+// non-zero generation); pdf-lib prints the same reference as "12 0 R"
+const refToPdfLibKey = (ref: string) => {
+  const match = /^(\d+)R(\d*)$/.exec(ref);
+  return match ? `${match[1]} ${match[2] || 0} R` : null;
+};
+
+// Drops the original annotations that were imported into the editable layer;
+// they are written back from the (possibly edited) model instead. Popups that
+// belong to a removed annotation go with it.
+const removeImportedAnnotations = (page: PDFPage, importedRefs: string[]) => {
+  const annots = page.node.Annots();
+  if (!annots || importedRefs.length === 0) return;
+
+  const removed = new Set(importedRefs.map(refToPdfLibKey).filter(Boolean));
+  for (let i = annots.size() - 1; i >= 0; i--) {
+    const entry = annots.get(i);
+    const dict = page.doc.context.lookup(entry);
+    const parent = dict instanceof PDFDict ? dict.get(PDFName.of('Parent')) : undefined;
+    if (removed.has(entry.toString()) || (parent && removed.has(parent.toString()))) {
+      annots.remove(i);
+    }
+  }
+};
+
+// Puts the pages of the document in the given order by rewriting its page
+// tree in place, so the outline, form fields, metadata and named destinations
+// still point at the same page objects. The tree is flattened to a single
+// node; attributes the pages inherited from intermediate nodes are copied
+// onto them first.
+const reorderPages = (pdfDoc: PDFDocument, pageOrder: number[]) => {
+  const pages = pdfDoc.getPages();
+  const rootRef = pdfDoc.catalog.get(PDFName.of('Pages')) as PDFRef;
+  const kids = PDFArray.withContext(pdfDoc.context);
+
+  pageOrder.forEach((pageNumber) => {
+    const leaf = pages[pageNumber - 1].node;
+    PDFPageLeaf.InheritableEntries.forEach((key) => {
+      const name = PDFName.of(key);
+      const value = leaf.getInheritableAttribute(name);
+      if (value && !leaf.get(name)) leaf.set(name, value);
+    });
+    leaf.setParent(rootRef);
+    kids.push(pages[pageNumber - 1].ref);
+  });
+
+  const root = pdfDoc.catalog.Pages();
+  root.set(PDFName.of('Kids'), kids);
+  root.set(PDFName.of('Count'), PDFNumber.of(pageOrder.length));
+};
+
+class AnnotationWriter {
+  private font: PDFFont | null = null;
+  private charset: Set<number> | null = null;
+
+  constructor(private pdfDoc: PDFDocument) {}
+
+  private get context() {
+    return this.pdfDoc.context;
+  }
+
+  private async getFont() {
+    if (!this.font) {
+      this.font = await this.pdfDoc.embedFont(StandardFonts.Helvetica);
+      this.charset = new Set(this.font.getCharacterSet());
+    }
+    return this.font;
+  }
+
+  // Helvetica only covers WinAnsi, and pdf-lib throws on anything else (CJK,
+  // Cyrillic, emoji...). Such characters are replaced in the appearance only;
+  // the note's /Contents keeps the full text.
+  private toDrawableText(text: string) {
+    return Array.from(text, char => (this.charset!.has(char.codePointAt(0)!) ? char : MISSING_GLYPH)).join('');
+  }
+
+  private appearance(content: string, bbox: PdfRect, resources: DictLiteral = {}): PDFRef {
+    const stream = this.context.flateStream(content, {
+      Type: 'XObject',
+      Subtype: 'Form',
+      BBox: bbox,
+      Resources: resources,
+    });
+    return this.context.register(stream);
+  }
+
+  private addAnnotation(page: PDFPage, id: string, dict: DictLiteral) {
+    const annotation = this.context.obj({
+      Type: 'Annot',
+      F: 4, // Print
+      P: page.ref,
+      NM: PDFString.of(id),
+      M: PDFString.fromDate(new Date()),
+      ...dict,
+    });
+    page.node.addAnnot(this.context.register(annotation));
+  }
+
+  writeHighlight(page: PDFPage, highlight: HighlightAnnotation) {
+    if (highlight.rects.length === 0) return;
+    const color = hexToRgb(highlight.color);
+    const rect = boundingRect(highlight.rects);
+
+    // QuadPoints order is upper-left, upper-right, lower-left, lower-right
+    const quadPoints = highlight.rects.flatMap(r => {
+      const [x1, y1, x2, y2] = normalizeRect(r);
+      return [x1, y2, x2, y2, x1, y1, x2, y1];
+    });
+
+    const fills = highlight.rects
+      .map(r => {
+        const [x1, y1, x2, y2] = normalizeRect(r);
+        return `${formatNumber(x1)} ${formatNumber(y1)} ${formatNumber(x2 - x1)} ${formatNumber(y2 - y1)} re f`;
+      })
+      .join('\n');
+
+    const ap = this.appearance(`/GS0 gs ${formatColor(color)} rg\n${fills}`, rect, {
+      ExtGState: { GS0: { Type: 'ExtGState', BM: 'Multiply' } },
+    });
+
+    this.addAnnotation(page, highlight.id, {
+      Subtype: 'Highlight',
+      Rect: rect,
+      QuadPoints: quadPoints,
+      C: color,
+      ...(highlight.text ? { Contents: PDFHexString.fromText(highlight.text) } : {}),
+      AP: { N: ap },
+    });
+  }
+
+  writeInk(page: PDFPage, ink: InkAnnotation) {
+    if (ink.points.length === 0) return;
+    const color = hexToRgb(ink.color);
+    const rect = expandRect(boundingRect(ink.points.map(([x, y]) => [x, y, x, y])), ink.width);
+
+    const path = ink.points
+      .map(([x, y], i) => `${formatNumber(x)} ${formatNumber(y)} ${i === 0 ? 'm' : 'l'}`)
+      .join('\n');
+
+    const ap = this.appearance(
+      `${formatColor(color)} RG ${formatNumber(ink.width)} w 1 J 1 j\n${path}\nS`,
+      rect
+    );
+
+    this.addAnnotation(page, ink.id, {
+      Subtype: 'Ink',
+      Rect: rect,
+      InkList: [ink.points.flat()],
+      C: color,
+      BS: { W: ink.width },
+      AP: { N: ap },
+    });
+  }
+
+  async writeNote(page: PDFPage, note: NoteAnnotation) {
+    const font = await this.getFont();
+    const lines = note.text.split(/\r?\n/).map(line => this.toDrawableText(line));
+    const lineHeight = font.heightAtSize(NOTE_FONT_SIZE);
+    const textWidth = Math.max(...lines.map(line => font.widthOfTextAtSize(line, NOTE_FONT_SIZE)));
+    const width = textWidth + NOTE_PADDING * 2;
+    const height = lineHeight * lines.length + NOTE_PADDING * 2;
+
+    // The note's anchor is its top-left corner
+    const [x, y] = note.point;
+    const rect: PdfRect = [x, y - height, x + width, y];
+
+    const textOps = lines
+      .map((line, i) => {
+        const baseline = y - NOTE_PADDING - lineHeight * (i + 1) + lineHeight * 0.2;
+        return `1 0 0 1 ${formatNumber(x + NOTE_PADDING)} ${formatNumber(baseline)} Tm ${font.encodeText(line).toString()} Tj`;
+      })
+      .join('\n');
+
+    const ap = this.appearance(
+      [
+        `1 g 0.5 G 0.5 w`,
+        `${formatNumber(x)} ${formatNumber(y - height)} ${formatNumber(width)} ${formatNumber(height)} re B`,
+        `BT /Helv ${NOTE_FONT_SIZE} Tf 0 g`,
+        textOps,
+        `ET`,
+      ].join('\n'),
+      rect,
+      { Font: { Helv: font.ref } }
+    );
+
+    this.addAnnotation(page, note.id, {
+      Subtype: 'FreeText',
+      Rect: rect,
+      Contents: PDFHexString.fromText(note.text),
+      DA: PDFString.of(`/Helv ${NOTE_FONT_SIZE} Tf 0 g`),
+      BS: { W: 0.5 },
+      AP: { N: ap },
+    });
+  }
+
+  writeShape(page: PDFPage, shape: ShapeAnnotation) {
+    const color = hexToRgb(shape.color);
+    const [x1, y1, x2, y2] = normalizeRect(shape.rect);
+    const rect = expandRect([x1, y1, x2, y2], SHAPE_BORDER_WIDTH / 2);
+
+    const ap = this.appearance(
+      `${formatColor(color)} RG ${formatNumber(SHAPE_BORDER_WIDTH)} w\n` +
+        `${formatNumber(x1)} ${formatNumber(y1)} ${formatNumber(x2 - x1)} ${formatNumber(y2 - y1)} re S`,
+      rect
+    );
+
+    this.addAnnotation(page, shape.id, {
+      Subtype: 'Square',
+      Rect: rect,
+      C: color,
+      BS: { W: SHAPE_BORDER_WIDTH },
+      AP: { N: ap },
+    });
+  }
+}
+
+// Writes the reader's annotations into a copy of the original PDF as standard
+// annotation objects (/Highlight, /Ink, /FreeText and /Square), each with an
+// appearance stream so viewers that don't synthesize one still display it.
+// When a page order is given, pages are written in that order.
+export const exportAnnotatedPdf = async (
+  data: Uint8Array,
+  annotations: DocumentAnnotations,
+  pageOrder?: number[]
+): Promise<Uint8Array> => {
+  const pdfDoc = await PDFDocument.load(data, { updateMetadata: false });
+  const writer = new AnnotationWriter(pdfDoc);
+  const pages = pdfDoc.getPages();
+
+  for (const [key, pageAnnotations] of Object.entries(annotations)) {
+    const page = pages[Number(key) - 1];
+    if (!page) continue;
+
+    removeImportedAnnotations(page, pageAnnotations.importedRefs || []);
+
+    pageAnnotations.highlights.forEach(highlight => writer.writeHighlight(page, highlight));
+    pageAnnotations.paths.forEach(ink => writer.writeInk(page, ink));
+    pageAnnotations.shapes.forEach(shape => writer.writeShape(page, shape));
+    for (const note of pageAnnotations.notes) {
+      await writer.writeNote(page, note);
+    }
+  }
+
+  if (pageOrder && !isIdentityPageOrder(pageOrder)) {
+    reorderPages(pdfDoc, pageOrder);
+  }
+  return pdfDoc.save();
+};
+
+export const downloadPdf = (bytes: Uint8Array, fileName: string) => {
+  downloadBlob(new Blob([bytes], { type: 'application/pdf' }), fileName);
+};
@@ -0,0 +1,129 @@
+import { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import { PageAnnotations, PdfPoint, PdfRect, emptyPageAnnotations } from './annotations';
+import { DocumentAnnotations } from './annotation-store';
+import { normalizeRect } from './pdf-coordinates';
+
+const DEFAULT_HIGHLIGHT_COLOR = '#FEF7CD';
+const DEFAULT_INK_COLOR = '#000000';
+const DEFAULT_INK_WIDTH = 1;
+
+// Annotations without an object reference are inline dictionaries that cannot
+// be removed from the file again, so they are left to the PDF renderer.
+const hasObjectRef = (id: unknown): id is string => typeof id === 'string' && /^\d+R\d*$/.test(id);
+
+const toHex = (color: ArrayLike<number> | null | undefined, fallback: string) => {
+  if (!color || color.length < 3) return fallback;
+  return '#' + Array.from(color).slice(0, 3).map(c => c.toString(16).padStart(2, '0')).join('').toUpperCase();
+};
+
+const rectFromQuad = (quad: Array<{ x: number; y: number }>): PdfRect =>
+  normalizeRect([
+    Math.min(...quad.map(p => p.x)),
+    Math.min(...quad.map(p => p.y)),
+    Math.max(...quad.map(p => p.x)),
+    Math.max(...quad.map(p => p.y)),
+  ]);
+
+// Maps the annotations pdf.js parses from a page onto the reader's editable
+// model. Subtypes the model has no equivalent for are ignored.
+export const readPageAnnotations = async (page: PDFPageProxy): Promise<PageAnnotations> => {
+  const result = emptyPageAnnotations();
+  const importedRefs: string[] = [];
+  const items = await page.getAnnotations();
+
+  items.forEach((item) => {
+    if (!hasObjectRef(item.id)) return;
+    const pdfRef = item.id;
+    const id = `pdf-${pdfRef}`;
+    const rect = normalizeRect(item.rect);
+    const contents: string = item.contentsObj?.str || '';
+
+    switch (item.subtype) {
+      case 'Highlight':
+        result.highlights.push({
+          id,
+          pdfRef,
+          rects: item.quadPoints ? item.quadPoints.map(rectFromQuad) : [rect],
+          color: toHex(item.color, DEFAULT_HIGHLIGHT_COLOR),
+          ...(contents ? { text: contents } : {}),
+        });
+        break;
+      case 'Ink':
+        (item.inkLists || []).forEach((list: Array<{ x: number; y: number }>, i: number) => {
+          result.paths.push({
+            id: `${id}-${i}`,
+            pdfRef,
+            points: list.map((p): PdfPoint => [p.x, p.y]),
+            color: toHex(item.color, DEFAULT_INK_COLOR),
+            width: item.borderStyle?.width || DEFAULT_INK_WIDTH,
+          });
+        });
+        break;
+      case 'FreeText':
+      case 'Text':
+        result.notes.push({ id, pdfRef, point: [rect[0], rect[3]], text: contents });
+        break;
+      case 'Square': {
+        // /Rect includes the border, the model stores the stroke's centre line
+        const inset = (item.borderStyle?.width || 0) / 2;
+        result.shapes.push({
+          id,
+          pdfRef,
+          type: 'rectangle',
+          rect: [rect[0] + inset, rect[1] + inset, rect[2] - inset, rect[3] - inset],
+          color: toHex(item.color, DEFAULT_INK_COLOR),
+        });
+        break;
+      }
+      default:
+        return;
+    }
+    importedRefs.push(pdfRef);
+  });
+
+  result.importedRefs = importedRefs;
+  return result;
+};
+
+export const readDocumentAnnotations = async (pdfDocument: PDFDocumentProxy): Promise<DocumentAnnotations> => {
+  const result: DocumentAnnotations = {};
+  for (let pageNumber = 1; pageNumber <= pdfDocument.numPages; pageNumber++) {
+    const page = await pdfDocument.getPage(pageNumber);
+    const annotations = await readPageAnnotations(page);
+    if (annotations.importedRefs.length > 0) {
+      result[pageNumber] = annotations;
+    }
+  }
+  return result;
+};
+
+// The editable layer draws imported annotations itself, so pdf.js must not
+// paint their original appearance onto the canvas as well. Pages have to be
+// rendered with AnnotationMode.ENABLE_STORAGE for this to take effect.
+export const hideImportedAnnotations = (pdfDocument: PDFDocumentProxy, annotations: DocumentAnnotations) => {
+  Object.values(annotations).forEach((page) => {
+    (page.importedRefs || []).forEach((ref) => {
+      pdfDocument.annotationStorage.setValue(ref, { noView: true });
+    });
+  });
+};
+
+// Adds annotations from the file that this page has not seen before. Anything
+// already listed in importedRefs was either imported earlier (and may have
+// been edited since) or deleted by the user, so it is left alone.
+export const mergeImportedAnnotations = (
+  stored: PageAnnotations | undefined,
+  imported: PageAnnotations
+): PageAnnotations => {
+  const base = stored || emptyPageAnnotations();
+  const known = new Set(base.importedRefs || []);
+  const isNew = (annotation: { pdfRef?: string }) => !annotation.pdfRef || !known.has(annotation.pdfRef);
+
+  return {
+    highlights: [...base.highlights, ...imported.highlights.filter(isNew)],
+    paths: [...base.paths, ...imported.paths.filter(isNew)],
+    notes: [...base.notes, ...imported.notes.filter(isNew)],
+    shapes: [...base.shapes, ...imported.shapes.filter(isNew)],
+    importedRefs: [...known, ...(imported.importedRefs || []).filter(ref => !known.has(ref))],
+  };
+};
@@ -0,0 +1,85 @@
+import { PDFDocumentProxy } from 'pdfjs-dist';
+
+export interface OutlineItem {
+  title: string;
+  bold: boolean;
+  italic: boolean;
+  dest: string | unknown[] | null;
+  url: string | null;
+  items: OutlineItem[];
+}
+
+// Where a destination points: a page and, when the destination names one, the
+// PDF-space coordinate that should end up at the top-left of the view
+export interface ResolvedDestination {
+  pageNumber: number;
+  left: number | null;
+  top: number | null;
+}
+
+export const loadOutline = async (pdfDocument: PDFDocumentProxy): Promise<OutlineItem[]> => {
+  const outline = await pdfDocument.getOutline();
+  return (outline || []) as OutlineItem[];
+};
+
+const toCoordinate = (value: unknown) => (typeof value === 'number' ? value : null);
+
+export const resolveDestination = async (
+  pdfDocument: PDFDocumentProxy,
+  dest: OutlineItem['dest']
+): Promise<ResolvedDestination | null> => {
+  const explicit = typeof dest === 'string' ? await pdfDocument.getDestination(dest) : dest;
+  if (!Array.isArray(explicit) || explicit.length === 0) return null;
+
+  // The target is either a page reference or (in some files) a 0-based page index
+  const [target, view, ...args] = explicit as [unknown, { name?: string } | undefined, ...unknown[]];
+  let pageIndex: number;
+  if (typeof target === 'number') {
+    pageIndex = target;
+  } else if (target && typeof target === 'object') {
+    pageIndex = await pdfDocument.getPageIndex(target as { num: number, gen: number });
+  } else {
+    return null;
+  }
+
+  let left: number | null = null;
+  let top: number | null = null;
+  switch (view?.name) {
+    case 'XYZ':
+      left = toCoordinate(args[0]);
+      top = toCoordinate(args[1]);
+      break;
+    case 'FitH':
+    case 'FitBH':
+      top = toCoordinate(args[0]);
+      break;
+    case 'FitV':
+    case 'FitBV':
+      left = toCoordinate(args[0]);
+      break;
+    case 'FitR':
+      left = toCoordinate(args[0]);
+      top = toCoordinate(args[3]);
+      break;
+  }
+
+  return { pageNumber: pageIndex + 1, left, top };
+};
+
+// Top-level outline entries with the page each one starts on, in page order.
+// Entries without a resolvable page destination (e.g. links) are left out.
+export const loadOutlineSections = async (
+  pdfDocument: PDFDocumentProxy
+): Promise<Array<{ title: string, pageNumber: number }>> => {
+  const outline = await loadOutline(pdfDocument);
+  const sections = await Promise.all(
+    outline.map(async (item) => {
+      const destination = await resolveDestination(pdfDocument, item.dest).catch(() => null);
+      return destination ? { title: item.title, pageNumber: destination.pageNumber } : null;
+    })
+  );
+
+  return sections
+    .filter((section): section is { title: string, pageNumber: number } => section !== null)
+    .sort((a, b) => a.pageNumber - b.pageNumber);
+};
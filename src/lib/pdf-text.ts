@@ -0,0 +1,77 @@
+import { PDFDocumentProxy } from 'pdfjs-dist';
+import { TextContent, TextItem } from 'pdfjs-dist/types/src/display/api';
+
+// A page's plain text is every text item followed by a space, in content
+// order. PDFPage's text layer uses the same layout, so character offsets into
+// this string can be mapped back onto its spans.
+export const getTextItems = (textContent: TextContent) =>
+  textContent.items.filter((item): item is TextItem => 'str' in item);
+
+export const buildPageText = (items: TextItem[]) => items.map(item => item.str + ' ').join('');
+
+export const extractPageText = async (pdfDocument: PDFDocumentProxy, pageNumber: number) => {
+  const page = await pdfDocument.getPage(pageNumber);
+  const textContent = await page.getTextContent();
+  return buildPageText(getTextItems(textContent));
+};
+
+export interface TextParagraph {
+  text: string;
+  // Distance from the top of the page to the paragraph's first line, in
+  // unscaled viewport units
+  top: number;
+}
+
+export interface PageParagraphs {
+  paragraphs: TextParagraph[];
+  // Unscaled page height, for converting tops to rendered positions
+  pageHeight: number;
+}
+
+// Groups a page's text items into paragraphs. A new paragraph starts where the
+// gap to the previous line is clearly wider than a line, or where the text
+// jumps back up the page (the next column).
+export const extractPageParagraphs = async (pdfDocument: PDFDocumentProxy, pageNumber: number): Promise<PageParagraphs> => {
+  const page = await pdfDocument.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: 1 });
+  const items = getTextItems(await page.getTextContent());
+
+  const paragraphs: TextParagraph[] = [];
+  let current: { parts: string[], top: number } | null = null;
+  let lastBaseline = 0;
+  let lastHeight = 0;
+
+  const flush = () => {
+    const text = current?.parts.join('').replace(/\s+/g, ' ').trim();
+    if (current && text) paragraphs.push({ text, top: current.top });
+    current = null;
+  };
+
+  items.forEach((item) => {
+    if (!item.str.trim()) {
+      current?.parts.push(' ');
+      return;
+    }
+
+    const [, baseline] = viewport.convertToViewportPoint(item.transform[4], item.transform[5]);
+    const height = item.height || lastHeight || 10;
+
+    if (current) {
+      const lineHeight = Math.max(height, lastHeight);
+      const gap = baseline - lastBaseline;
+      if (gap > lineHeight * 1.8 || gap < -lineHeight) {
+        flush();
+      } else if (gap > lineHeight * 0.5) {
+        current.parts.push(' ');
+      }
+    }
+
+    if (!current) current = { parts: [], top: Math.max(0, baseline - height) };
+    current.parts.push(item.str, item.hasEOL ? ' ' : '');
+    lastBaseline = baseline;
+    lastHeight = height;
+  });
+  flush();
+
+  return { paragraphs, pageHeight: viewport.height };
+};
@@ -0,0 +1,70 @@
+import * as pdfjs from 'pdfjs-dist';
+import { PDFDocumentProxy } from 'pdfjs-dist';
+import { RenderTask } from 'pdfjs-dist/types/src/display/api';
+
+// Channel difference (0-255) below which pixels count as unchanged, so
+// anti-aliasing differences do not light up every glyph edge
+const CHANNEL_THRESHOLD = 48;
+// Colour painted over changed pixels
+const CHANGED_COLOR = [239, 68, 68, 170];
+
+// Renders a page to an offscreen canvas at the given scale, the way the viewer
+// draws it: with the annotation storage applied, so annotations imported into
+// the editable layer are left out. The render task is handed to onRenderTask
+// so the caller can cancel it.
+export const renderPageToImage = async (
+  pdfDocument: PDFDocumentProxy,
+  pageNumber: number,
+  scale: number,
+  onRenderTask?: (task: RenderTask) => void
+) => {
+  const page = await pdfDocument.getPage(pageNumber);
+  const viewport = page.getViewport({ scale });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  const context = canvas.getContext('2d', { willReadFrequently: true })!;
+  const renderTask = page.render({
+    canvasContext: context,
+    viewport,
+    annotationMode: pdfjs.AnnotationMode.ENABLE_STORAGE,
+  });
+  onRenderTask?.(renderTask);
+  await renderTask.promise;
+  return context.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+// Compares two renderings pixel by pixel. Changed pixels are painted in the
+// returned image and everything else is left transparent, so it can be laid
+// over either page. Pixels outside the smaller page count as changed.
+export const diffPixels = (original: ImageData, revision: ImageData) => {
+  const width = Math.max(original.width, revision.width);
+  const height = Math.max(original.height, revision.height);
+  const image = new ImageData(width, height);
+  let changed = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inOriginal = x < original.width && y < original.height;
+      const inRevision = x < revision.width && y < revision.height;
+      let isChanged = inOriginal !== inRevision;
+
+      if (inOriginal && inRevision) {
+        const a = (y * original.width + x) * 4;
+        const b = (y * revision.width + x) * 4;
+        isChanged =
+          Math.abs(original.data[a] - revision.data[b]) > CHANNEL_THRESHOLD ||
+          Math.abs(original.data[a + 1] - revision.data[b + 1]) > CHANNEL_THRESHOLD ||
+          Math.abs(original.data[a + 2] - revision.data[b + 2]) > CHANNEL_THRESHOLD ||
+          Math.abs(original.data[a + 3] - revision.data[b + 3]) > CHANNEL_THRESHOLD;
+      }
+
+      if (isChanged) {
+        image.data.set(CHANGED_COLOR, (y * width + x) * 4);
+        changed++;
+      }
+    }
+  }
+
+  return { image, changedRatio: changed / (width * height) };
+};
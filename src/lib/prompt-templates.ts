@@ -0,0 +1,130 @@
+import { createId } from './utils';
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description: string;
+  // Prompt text with {{variable}} placeholders
+  prompt: string;
+  // Built-in templates ship with the app and cannot be edited or deleted
+  builtIn?: boolean;
+}
+
+export type TemplateVariable = 'pageText' | 'selection' | 'pageNumber' | 'documentTitle';
+
+export type TemplateValues = Record<TemplateVariable, string>;
+
+export const TEMPLATE_VARIABLES: Array<{ name: TemplateVariable, description: string }> = [
+  { name: 'pageText', description: 'Text of the current page' },
+  { name: 'selection', description: 'Text chosen with "Run a template" in the selection menu' },
+  { name: 'pageNumber', description: 'Number of the current page' },
+  { name: 'documentTitle', description: 'File name of the document' },
+];
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'builtin:critique-methodology',
+    name: 'Critique methodology',
+    description: 'Weaknesses, assumptions and threats to validity in the methods on this page',
+    prompt:
+      'Critically review the methodology described on page {{pageNumber}} of "{{documentTitle}}". ' +
+      'Point out unstated assumptions, weaknesses in the design, threats to validity and anything a reviewer would ask about, ' +
+      'and suggest how each could be addressed.\n\n{{pageText}}',
+    builtIn: true,
+  },
+  {
+    id: 'builtin:action-items',
+    name: 'Extract action items',
+    description: 'Tasks, owners and deadlines as a checklist',
+    prompt:
+      'List every action item, decision and deadline in the following text from page {{pageNumber}} as a Markdown checklist. ' +
+      'Include the owner and due date when the text names them. If there are none, say so.\n\n{{pageText}}',
+    builtIn: true,
+  },
+  {
+    id: 'builtin:explain-new',
+    name: "Explain like I'm new",
+    description: 'A plain-language explanation of the selected passage',
+    prompt:
+      'Explain the following passage from "{{documentTitle}}" to someone who is new to the subject. ' +
+      'Use plain language, define any jargon and give a short example.\n\n{{selection}}',
+    builtIn: true,
+  },
+];
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Variables a template refers to, known or not
+export const getTemplateVariables = (prompt: string) =>
+  Array.from(new Set(Array.from(prompt.matchAll(VARIABLE_PATTERN), match => match[1])));
+
+// Fills in the placeholders; unknown ones are left as written. Only own keys
+// count, so {{constructor}} or {{toString}} stay placeholders.
+export const renderTemplate = (prompt: string, values: TemplateValues) =>
+  prompt.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name as TemplateVariable] : placeholder
+  );
+
+export const createTemplateId = () => `custom:${createId()}`;
+
+const STORAGE_KEY = 'breezy-pdf-reader:prompt-templates';
+
+const isTemplateLike = (value: unknown): value is Pick<PromptTemplate, 'name' | 'prompt'> & Partial<PromptTemplate> =>
+  !!value &&
+  typeof value === 'object' &&
+  typeof (value as PromptTemplate).name === 'string' &&
+  typeof (value as PromptTemplate).prompt === 'string';
+
+export const loadCustomTemplates = (): PromptTemplate[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.filter(isTemplateLike).map(template => ({
+      id: template.id ?? createTemplateId(),
+      name: template.name,
+      description: template.description ?? '',
+      prompt: template.prompt,
+    }));
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomTemplates = (templates: PromptTemplate[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+};
+
+const EXPORT_VERSION = 1;
+
+export const exportTemplates = (templates: PromptTemplate[]) =>
+  JSON.stringify({
+    version: EXPORT_VERSION,
+    templates: templates.map(({ name, description, prompt }) => ({ name, description, prompt })),
+  }, null, 2);
+
+// Reads templates from an export file, or from a bare array of templates.
+// Every imported template gets a new id so it never replaces an existing one.
+export const parseTemplateImport = (json: string): PromptTemplate[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const entries = Array.isArray(data) ? data : (data as { templates?: unknown })?.templates;
+  if (!Array.isArray(entries)) {
+    throw new Error('The file does not contain a list of templates.');
+  }
+
+  const templates = entries.filter(isTemplateLike).map(entry => ({
+    id: createTemplateId(),
+    name: entry.name.trim() || 'Untitled template',
+    description: typeof entry.description === 'string' ? entry.description : '',
+    prompt: entry.prompt,
+  }));
+  if (templates.length === 0) {
+    throw new Error('The file does not contain any templates with a name and a prompt.');
+  }
+  return templates;
+};
@@ -0,0 +1,44 @@
+export const ASSISTANT_SYSTEM_PROMPT = 'You are an assistant built into a PDF reader. Answer using the document text you are given, and say so when the text does not contain the answer.';
+
+// The reader turns citations in this format into links to the cited passage
+export const CITATION_INSTRUCTIONS = 'Back up each claim with a citation written exactly as [p. N: "short quote"], where N is the page number and the quote is a few words copied verbatim from that page.';
+
+// System prompt for a conversation about one page of the document
+export const buildPageChatPrompt = (pageNumber: number, pageText: string) =>
+  `${ASSISTANT_SYSTEM_PROMPT} ${CITATION_INSTRUCTIONS}\n\nThe reader is on page ${pageNumber}. Its text is:\n${pageText}`;
+
+// System prompt for a question about the whole document, answered from the
+// excerpts retrieval found for it
+export const buildDocumentChatPrompt = (documentTitle: string, excerpts: Array<{ pageNumber: number, text: string }>) => {
+  const context = excerpts.map(({ pageNumber, text }) => `[Page ${pageNumber}]\n${text}`).join('\n\n');
+  return `${ASSISTANT_SYSTEM_PROMPT} ${CITATION_INSTRUCTIONS}\n\n` +
+    `The reader is asking about the whole document${documentTitle ? ` "${documentTitle}"` : ''}. ` +
+    'These are the excerpts most relevant to the question, each marked with its page.\n\n' +
+    (context || 'No relevant excerpts were found.');
+};
+
+export type SelectionAction = 'explain' | 'define' | 'summarize' | 'translate' | 'ask' | 'template';
+
+// Text the reader selected on a page
+export interface TextSelection {
+  text: string;
+  pageNumber: number;
+}
+
+const quoteBlock = (text: string) =>
+  text.trim().split(/\r?\n/).map(line => `> ${line}`).join('\n');
+
+// The chat question for a selection action. "ask" leaves the question open
+// for the reader to finish.
+export const buildSelectionQuestion = (action: SelectionAction, { text, pageNumber }: TextSelection) => {
+  switch (action) {
+    case 'explain':
+      return `Explain this passage from page ${pageNumber}:\n\n${quoteBlock(text)}`;
+    case 'define':
+      return `Define "${text.trim()}" as it is used on page ${pageNumber}.`;
+    case 'summarize':
+      return `Summarize this passage from page ${pageNumber}:\n\n${quoteBlock(text)}`;
+    default:
+      return `About this passage from page ${pageNumber}:\n\n${quoteBlock(text)}\n\n`;
+  }
+};
@@ -0,0 +1,118 @@
+export interface TextChunk {
+  id: string;
+  pageNumber: number;
+  text: string;
+}
+
+export interface RetrievedChunk extends TextChunk {
+  score: number;
+}
+
+const CHUNK_SIZE = 1000;
+const CHUNK_OVERLAP = 200;
+
+// Splits a page into overlapping chunks of roughly CHUNK_SIZE characters,
+// breaking at whitespace so words stay whole
+export const chunkPageText = (pageNumber: number, text: string): TextChunk[] => {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  const chunks: TextChunk[] = [];
+  let start = 0;
+
+  while (start < normalized.length) {
+    let end = Math.min(start + CHUNK_SIZE, normalized.length);
+    if (end < normalized.length) {
+      const breakAt = normalized.lastIndexOf(' ', end);
+      if (breakAt > start + CHUNK_SIZE / 2) end = breakAt;
+    }
+
+    chunks.push({ id: `${pageNumber}:${chunks.length}`, pageNumber, text: normalized.slice(start, end) });
+    if (end >= normalized.length) break;
+
+    const next = normalized.indexOf(' ', Math.max(end - CHUNK_OVERLAP, start + 1));
+    start = next === -1 || next >= end ? end : next + 1;
+  }
+
+  return chunks;
+};
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'does', 'for', 'from', 'how', 'if', 'in', 'into',
+  'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'their', 'there', 'these', 'this', 'to', 'was', 'what',
+  'when', 'where', 'which', 'who', 'why', 'will', 'with', 'do', 'did', 'can', 'about',
+]);
+
+// Strips common English inflections so "timeouts" matches "timeout" and
+// "indexes" matches "index". Crude, but applied to queries and text alike.
+const stem = (term: string) => {
+  if (term.length > 4 && term.endsWith('ies')) return `${term.slice(0, -3)}y`;
+  if (term.length > 4 && /(s|x|ch|sh)es$/.test(term)) return term.slice(0, -2);
+  if (term.length > 3 && term.endsWith('s') && !term.endsWith('ss')) return term.slice(0, -1);
+  if (term.length > 5 && term.endsWith('ing')) return term.slice(0, -3);
+  if (term.length > 4 && term.endsWith('ed')) return term.slice(0, -2);
+  return term;
+};
+
+export const tokenize = (text: string) =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter(term => term.length > 1 && !STOP_WORDS.has(term))
+    .map(stem);
+
+const K1 = 1.2;
+const B = 0.75;
+
+interface IndexedChunk {
+  chunk: TextChunk;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+// Okapi BM25 over text chunks. Chunks can be added while searches run, so
+// the index grows as pages are extracted.
+export class Bm25Index {
+  private chunks: IndexedChunk[] = [];
+  private documentFrequencies = new Map<string, number>();
+  private totalLength = 0;
+
+  get size() {
+    return this.chunks.length;
+  }
+
+  add(chunks: TextChunk[]) {
+    chunks.forEach((chunk) => {
+      const terms = tokenize(chunk.text);
+      const termFrequencies = new Map<string, number>();
+      terms.forEach(term => termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + 1));
+      termFrequencies.forEach((_, term) => {
+        this.documentFrequencies.set(term, (this.documentFrequencies.get(term) ?? 0) + 1);
+      });
+
+      this.chunks.push({ chunk, termFrequencies, length: terms.length });
+      this.totalLength += terms.length;
+    });
+  }
+
+  search(query: string, limit: number): RetrievedChunk[] {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0 || this.chunks.length === 0) return [];
+
+    const count = this.chunks.length;
+    const averageLength = this.totalLength / count || 1;
+
+    const scored = this.chunks.map(({ chunk, termFrequencies, length }) => {
+      let score = 0;
+      queryTerms.forEach((term) => {
+        const frequency = termFrequencies.get(term);
+        if (!frequency) return;
+        const documentFrequency = this.documentFrequencies.get(term) ?? 0;
+        const idf = Math.log(1 + (count - documentFrequency + 0.5) / (documentFrequency + 0.5));
+        score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * length / averageLength));
+      });
+      return { ...chunk, score };
+    });
+
+    return scored
+      .filter(chunk => chunk.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
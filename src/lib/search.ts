@@ -0,0 +1,73 @@
+export interface SearchOptions {
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  regex: boolean;
+}
+
+export interface SearchHit {
+  pageNumber: number;
+  // Character offsets into the page text (see buildPageText)
+  start: number;
+  end: number;
+  snippet: {
+    before: string;
+    match: string;
+    after: string;
+  };
+}
+
+// Stop collecting after this many hits so a one-letter query stays responsive
+export const MAX_SEARCH_HITS = 1000;
+
+const SNIPPET_CONTEXT = 40;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Throws a SyntaxError for an invalid pattern in regex mode
+export const buildSearchPattern = (query: string, options: SearchOptions) => {
+  let source = options.regex ? query : escapeRegExp(query);
+  if (options.wholeWord) {
+    source = `\\b(?:${source})\\b`;
+  }
+  return new RegExp(source, options.caseSensitive ? 'g' : 'gi');
+};
+
+export const searchPages = (
+  pageTexts: Record<number, string>,
+  pageNumbers: number[],
+  pattern: RegExp
+): SearchHit[] => {
+  const hits: SearchHit[] = [];
+
+  for (const pageNumber of pageNumbers) {
+    const text = pageTexts[pageNumber];
+    if (!text) continue;
+
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      if (match[0].length === 0) {
+        // Skip empty matches (e.g. /a*/) instead of looping on them
+        pattern.lastIndex++;
+        continue;
+      }
+
+      const start = match.index;
+      const end = start + match[0].length;
+      hits.push({
+        pageNumber,
+        start,
+        end,
+        snippet: {
+          before: text.slice(Math.max(0, start - SNIPPET_CONTEXT), start).trimStart(),
+          match: match[0],
+          after: text.slice(end, end + SNIPPET_CONTEXT).trimEnd(),
+        },
+      });
+
+      if (hits.length >= MAX_SEARCH_HITS) return hits;
+    }
+  }
+
+  return hits;
+};
@@ -0,0 +1,80 @@
+// How well a card was remembered, from forgotten to effortless
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export interface ReviewSchedule {
+  // When the card is next due, in ms since the epoch
+  due: number;
+  intervalDays: number;
+  // How quickly the interval grows on successful reviews
+  ease: number;
+  // Successful reviews in a row
+  repetitions: number;
+  lapses: number;
+  lastReviewedAt?: number;
+}
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+const MIN_EASE = 1.3;
+const START_EASE = 2.5;
+// A forgotten card comes back within the same session
+const RELEARN_DELAY = 10 * MINUTE;
+
+export const createReviewSchedule = (now = Date.now()): ReviewSchedule => ({
+  due: now,
+  intervalDays: 0,
+  ease: START_EASE,
+  repetitions: 0,
+  lapses: 0,
+});
+
+// SM-2 as used by most flashcard apps: intervals of 1 and then 3 days for
+// new cards, then growing by the card's ease. "Again" starts the card over
+// and makes it harder, "hard" and "easy" shrink and stretch the interval.
+export const scheduleReview = (schedule: ReviewSchedule, grade: ReviewGrade, now = Date.now()): ReviewSchedule => {
+  if (grade === 'again') {
+    return {
+      due: now + RELEARN_DELAY,
+      intervalDays: 0,
+      ease: Math.max(MIN_EASE, schedule.ease - 0.2),
+      repetitions: 0,
+      lapses: schedule.lapses + 1,
+      lastReviewedAt: now,
+    };
+  }
+
+  const { repetitions, intervalDays } = schedule;
+  let ease = schedule.ease;
+  let interval: number;
+
+  if (grade === 'hard') {
+    ease = Math.max(MIN_EASE, ease - 0.15);
+    interval = repetitions === 0 ? 1 : Math.max(intervalDays + 1, Math.round(intervalDays * 1.2));
+  } else if (grade === 'good') {
+    interval = repetitions === 0 ? 1 : repetitions === 1 ? 3 : Math.round(intervalDays * ease);
+  } else {
+    ease += 0.15;
+    interval = repetitions === 0 ? 3 : Math.round(Math.max(intervalDays, 1) * ease * 1.3);
+  }
+
+  return {
+    due: now + interval * DAY,
+    intervalDays: interval,
+    ease,
+    repetitions: repetitions + 1,
+    lapses: schedule.lapses,
+    lastReviewedAt: now,
+  };
+};
+
+export const isDue = (schedule: ReviewSchedule, now = Date.now()) => schedule.due <= now;
+
+// A short label for how far off a time is: "10 min", "3 d", "2 mo"
+export const formatDelay = (ms: number) => {
+  if (ms < 60 * MINUTE) return `${Math.max(1, Math.round(ms / MINUTE))} min`;
+  if (ms < DAY) return `${Math.round(ms / (60 * MINUTE))} h`;
+  if (ms < 30 * DAY) return `${Math.round(ms / DAY)} d`;
+  if (ms < 365 * DAY) return `${Math.round(ms / (30 * DAY))} mo`;
+  return `${Math.round(ms / (365 * DAY))} y`;
+};
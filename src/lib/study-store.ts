@@ -0,0 +1,23 @@
+import { STUDY_STORE } from './db';
+import { createDocumentListStore } from './document-list-store';
+import { ReviewSchedule } from './spaced-repetition';
+
+export type StudyCardKind = 'flashcard' | 'quiz';
+
+export interface StudyCard {
+  id: string;
+  kind: StudyCardKind;
+  question: string;
+  // The answer of a flashcard, or why the right option is right
+  answer: string;
+  // Quiz cards only
+  options?: string[];
+  correctIndex?: number;
+  // Page the card was written from, and the passage it tests
+  pageNumber: number;
+  quote: string | null;
+  review: ReviewSchedule;
+  createdAt: number;
+}
+
+export const studyStore = createDocumentListStore<StudyCard>(STUDY_STORE, 'cards', 'study cards');
@@ -0,0 +1,170 @@
+import { z } from 'zod';
+import { AIProvider, ChatMessage } from './ai';
+import { getInputBudget, packPages } from './ai/tokens';
+import { findQuoteRange } from './citations';
+import { parseJsonReply } from './extraction';
+import { createReviewSchedule } from './spaced-repetition';
+import { StudyCard, StudyCardKind } from './study-store';
+import { createId } from './utils';
+
+const QUIZ_OPTION_COUNT = 4;
+// At most this many cards are asked for in one request
+const MAX_CARDS_PER_REQUEST = 20;
+// Tokens set aside for the instructions
+const INSTRUCTION_TOKENS = 400;
+
+const STUDY_SYSTEM_PROMPT =
+  'You write study material that helps a reader learn and remember a document. Reply with a single JSON object and nothing else: ' +
+  'no explanations and no code fences. Only ask about what the text says, and prefer its key facts, definitions and steps over trivia.';
+
+const flashcardSchema = z.object({
+  question: z.string().min(1),
+  answer: z.string().min(1),
+  page: z.coerce.number().int(),
+  quote: z.string().nullish(),
+});
+
+const quizSchema = z.object({
+  question: z.string().min(1),
+  options: z.array(z.string().min(1)).length(QUIZ_OPTION_COUNT),
+  correct: z.coerce.number().int().min(0).max(QUIZ_OPTION_COUNT - 1),
+  explanation: z.string().nullish(),
+  page: z.coerce.number().int(),
+  quote: z.string().nullish(),
+});
+
+const CARD_FORMATS: Record<StudyCardKind, string> = {
+  flashcard:
+    '{"cards": [{"question": "...", "answer": "...", "page": 3, "quote": "..."}]}. ' +
+    'Keep answers short enough to check at a glance.',
+  quiz:
+    `{"cards": [{"question": "...", "options": ["...", "...", "...", "..."], "correct": 0, "explanation": "...", "page": 3, "quote": "..."}]}. ` +
+    `Give exactly ${QUIZ_OPTION_COUNT} options with one right answer, "correct" being its index from 0. ` +
+    'Make the wrong options plausible, and vary where the right one is. The explanation says in one sentence why it is right.',
+};
+
+export const buildStudyMessages = (kind: StudyCardKind, count: number, pages: number[], text: string): ChatMessage[] => {
+  const pageLabel = pages.length === 1 ? `page ${pages[0]}` : `pages ${pages[0]}–${pages[pages.length - 1]}`;
+  const noun = kind === 'flashcard' ? 'question-and-answer flashcards' : 'multiple-choice questions';
+
+  return [
+    { role: 'system', content: STUDY_SYSTEM_PROMPT },
+    {
+      role: 'user',
+      content:
+        `Write up to ${count} ${noun} from the text of ${pageLabel}. Each page starts with a [Page N] heading.\n\n` +
+        `Reply as ${CARD_FORMATS[kind]} "page" is the page the answer is on, and "quote" copies a few words ` +
+        `of that page, verbatim, where the answer can be found.\n\nText:\n${text}`,
+    },
+  ];
+};
+
+export interface StudyGenerationResult {
+  cards: StudyCard[];
+  // Pages the model gave no usable cards for
+  failedPages: number[];
+}
+
+interface GenerateOptions {
+  provider: AIProvider;
+  kind: StudyCardKind;
+  pageTexts: Record<number, string>;
+  pages: number[];
+  cardsPerPage: number;
+  signal?: AbortSignal;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+// Turns one card of a reply into a StudyCard, or null when it is malformed
+// or points at a page outside the request
+const toStudyCard = (
+  kind: StudyCardKind,
+  value: unknown,
+  pages: number[],
+  pageTexts: Record<number, string>
+): StudyCard | null => {
+  const parsed = kind === 'flashcard' ? flashcardSchema.safeParse(value) : quizSchema.safeParse(value);
+  if (!parsed.success) return null;
+
+  // Either kind of card, with the other kind's fields missing
+  const card: Partial<z.infer<typeof flashcardSchema> & z.infer<typeof quizSchema>> = parsed.data;
+  // Models sometimes drop the page of a single-page request
+  const pageNumber = pages.includes(card.page) ? card.page : pages.length === 1 ? pages[0] : null;
+  if (pageNumber === null) return null;
+
+  const quote = card.quote?.trim() || null;
+  const now = Date.now();
+  return {
+    id: createId(),
+    kind,
+    question: card.question.trim(),
+    answer: (card.answer ?? card.explanation ?? '').trim(),
+    ...(card.options ? { options: card.options.map(option => option.trim()), correctIndex: card.correct } : {}),
+    pageNumber,
+    // Only keep quotes that can be found, so following the card lands on them
+    quote: quote && findQuoteRange(pageTexts[pageNumber] ?? '', quote) ? quote : null,
+    review: createReviewSchedule(now),
+    createdAt: now,
+  };
+};
+
+// Writes flashcards or quiz questions for the pages, packing as many pages
+// into each request as the model's context allows. Malformed cards are
+// dropped; a reply without any usable card is asked for again once.
+export const generateStudyCards = async ({
+  provider,
+  kind,
+  pageTexts,
+  pages,
+  cardsPerPage,
+  signal,
+  onProgress,
+}: GenerateOptions): Promise<StudyGenerationResult> => {
+  const budget = Math.max(getInputBudget(provider) - INSTRUCTION_TOKENS, 1);
+  const groups = packPages(pageTexts, pages, budget, provider.kind);
+
+  const cards: StudyCard[] = [];
+  const failedPages: number[] = [];
+  onProgress?.(0, groups.length);
+
+  for (const [index, group] of groups.entries()) {
+    const count = Math.min(cardsPerPage * group.pages.length, MAX_CARDS_PER_REQUEST);
+    const messages = buildStudyMessages(kind, count, group.pages, group.text);
+    let added = 0;
+
+    for (let attempt = 0; attempt < 2 && added === 0; attempt++) {
+      signal?.throwIfAborted();
+      const reply = await provider.complete({ messages, temperature: 0.4, signal });
+
+      let items: unknown[] = [];
+      try {
+        const parsed = parseJsonReply(reply) as { cards?: unknown, rows?: unknown };
+        const list = parsed?.cards ?? parsed?.rows;
+        if (Array.isArray(list)) items = list;
+      } catch {
+        // Asked for again below
+      }
+
+      items.forEach((item) => {
+        const card = toStudyCard(kind, item, group.pages, pageTexts);
+        if (card) {
+          cards.push(card);
+          added++;
+        }
+      });
+      if (added === 0) {
+        messages.push(
+          { role: 'assistant', content: reply },
+          { role: 'user', content: `That reply had no usable cards. Reply again with only the JSON object, as ${CARD_FORMATS[kind]}` }
+        );
+      }
+    }
+
+    if (added === 0) {
+      group.pages.forEach(page => !failedPages.includes(page) && failedPages.push(page));
+    }
+    onProgress?.(index + 1, groups.length);
+  }
+
+  return { cards, failedPages };
+};
@@ -0,0 +1,273 @@
+import { AIProvider } from './ai';
+import { chunkBySentences, estimateTokens, fitToBudget, getInputBudget } from './ai/tokens';
+import { ASSISTANT_SYSTEM_PROMPT, CITATION_INSTRUCTIONS } from './prompts';
+
+export type SummaryLength = 'tldr' | 'one-pager' | 'detailed';
+
+export const SUMMARY_LENGTHS: Array<{ value: SummaryLength, label: string }> = [
+  { value: 'tldr', label: 'TL;DR' },
+  { value: 'one-pager', label: 'One-pager' },
+  { value: 'detailed', label: 'Detailed' },
+];
+
+const LENGTH_INSTRUCTIONS: Record<SummaryLength, string> = {
+  'tldr': 'in two or three sentences',
+  'one-pager': 'in about 300 to 400 words, using short paragraphs or bullet points',
+  'detailed': 'in detail, covering every part in turn and keeping the key facts, figures and conclusions',
+};
+
+// Word limits for the intermediate page and section summaries
+const PAGE_SUMMARY_WORDS: Record<SummaryLength, number> = { 'tldr': 60, 'one-pager': 100, 'detailed': 180 };
+const SECTION_SUMMARY_WORDS: Record<SummaryLength, number> = { 'tldr': 80, 'one-pager': 150, 'detailed': 300 };
+
+// Summaries are combined in batches of at most this many tokens, or less when
+// the model's context is smaller, so a reduce step never outgrows it
+const MAX_REDUCE_TOKENS = 3000;
+
+// Rounds of combining batches before the summaries are cut to fit instead
+const MAX_REDUCE_ROUNDS = 4;
+
+// Tokens set aside for the instructions around the text in each request
+const INSTRUCTION_TOKENS = 200;
+
+// Page summaries requested in parallel
+const CONCURRENCY = 3;
+
+// Sections used when the PDF has no outline
+const PAGES_PER_SECTION = 10;
+
+export interface SummarySection {
+  title: string;
+  startPage: number;
+  endPage: number;
+}
+
+export interface SectionSummary extends SummarySection {
+  summary: string;
+}
+
+export interface DocumentSummary {
+  summary: string;
+  sections: SectionSummary[];
+}
+
+export interface SummaryProgress {
+  completed: number;
+  total: number;
+  stage: string;
+}
+
+const CITATION_NOTE = 'Keep the page citations from the input, written as [p. N], next to the points they support.';
+
+// Splits the document into sections starting at the outline entries, or into
+// fixed runs of pages when there is no usable outline
+export const buildSummarySections = (
+  outlineSections: Array<{ title: string, pageNumber: number }>,
+  totalPages: number
+): SummarySection[] => {
+  const starts = outlineSections.filter((section, index, all) =>
+    section.pageNumber >= 1 &&
+    section.pageNumber <= totalPages &&
+    (index === 0 || section.pageNumber !== all[index - 1].pageNumber)
+  );
+
+  if (starts.length === 0) {
+    const sections: SummarySection[] = [];
+    for (let startPage = 1; startPage <= totalPages; startPage += PAGES_PER_SECTION) {
+      const endPage = Math.min(startPage + PAGES_PER_SECTION - 1, totalPages);
+      sections.push({ title: startPage === endPage ? `Page ${startPage}` : `Pages ${startPage}–${endPage}`, startPage, endPage });
+    }
+    return sections;
+  }
+
+  const sections = starts.map((section, index) => ({
+    title: section.title,
+    startPage: section.pageNumber,
+    endPage: (starts[index + 1]?.pageNumber ?? totalPages + 1) - 1,
+  }));
+
+  // Front matter before the first outline entry gets a section of its own
+  if (sections[0].startPage > 1) {
+    sections.unshift({ title: 'Front matter', startPage: 1, endPage: sections[0].startPage - 1 });
+  }
+  return sections;
+};
+
+// Runs fn over the items, at most limit at a time. After the first failure no
+// further items are started, and the promise rejects with that error.
+const mapWithConcurrency = async <T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index]);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+// Groups texts into batches whose estimated size stays under maxTokens
+const batchTexts = (texts: string[], maxTokens: number, provider: AIProvider) => {
+  const batches: string[][] = [];
+  let current: string[] = [];
+  let tokens = 0;
+
+  texts.forEach((text) => {
+    const textTokens = estimateTokens(text, provider.kind);
+    if (current.length > 0 && tokens + textTokens > maxTokens) {
+      batches.push(current);
+      current = [];
+      tokens = 0;
+    }
+    current.push(text);
+    tokens += textTokens;
+  });
+  if (current.length > 0) batches.push(current);
+  return batches;
+};
+
+interface SummarizeOptions {
+  provider: AIProvider;
+  pageTexts: Record<number, string>;
+  sections: SummarySection[];
+  length: SummaryLength;
+  documentTitle: string;
+  signal?: AbortSignal;
+  onProgress?: (progress: SummaryProgress) => void;
+}
+
+// Map-reduce summary: every page is summarized on its own, page summaries are
+// combined per section, and section summaries into the whole document.
+// Pages too long for the model's context are summarized in sentence-aligned
+// parts, and oversized reduce steps are split into batches and reduced again.
+export const summarizeDocument = async ({
+  provider,
+  pageTexts,
+  sections,
+  length,
+  documentTitle,
+  signal,
+  onProgress,
+}: SummarizeOptions): Promise<DocumentSummary> => {
+  const pages = sections
+    .flatMap(section => Array.from({ length: section.endPage - section.startPage + 1 }, (_, i) => section.startPage + i))
+    .filter(pageNumber => pageTexts[pageNumber]?.trim());
+  const multiPageSections = sections.filter(section => section.endPage > section.startPage).length;
+
+  const progress: SummaryProgress = {
+    completed: 0,
+    total: pages.length + multiPageSections + 1,
+    stage: 'Summarizing pages',
+  };
+  const report = (changes: Partial<SummaryProgress>) => {
+    Object.assign(progress, changes);
+    onProgress?.({ ...progress });
+  };
+  report({});
+
+  const textBudget = Math.max(getInputBudget(provider) - INSTRUCTION_TOKENS, 1);
+  const reduceBudget = Math.min(MAX_REDUCE_TOKENS, textBudget);
+
+  const ask = async (prompt: string) => {
+    signal?.throwIfAborted();
+    const text = await provider.complete({
+      messages: [
+        { role: 'system', content: ASSISTANT_SYSTEM_PROMPT },
+        { role: 'user', content: prompt },
+      ],
+      signal,
+    });
+    return text.trim();
+  };
+
+  // Combines summaries into one, in as many rounds as the batch limit needs.
+  // A model that ignores the word limit can keep the summaries from getting
+  // any shorter; then each is cut to an equal share of the budget and
+  // combined in one last request.
+  const reduce = async (summaries: string[], instruction: string): Promise<string> => {
+    let current = summaries;
+    let previousBatchCount = Infinity;
+    for (let round = 0; ; round++) {
+      const batches = batchTexts(current, reduceBudget, provider);
+      if (batches.length === 1) {
+        return ask(`${instruction} ${CITATION_NOTE}\n\n${batches[0].join('\n\n')}`);
+      }
+      if (batches.length >= previousBatchCount || round === MAX_REDUCE_ROUNDS) {
+        const share = Math.max(Math.floor(reduceBudget / current.length), 1);
+        const shortened = current.map(text => fitToBudget(text, share, provider.kind).text).filter(Boolean);
+        return ask(`${instruction} ${CITATION_NOTE}\n\n${shortened.join('\n\n')}`);
+      }
+      previousBatchCount = batches.length;
+
+      report({ total: progress.total + batches.length });
+      current = [];
+      for (const batch of batches) {
+        current.push(await ask(
+          `Combine these partial summaries into one summary of at most ${SECTION_SUMMARY_WORDS[length]} words. ${CITATION_NOTE}\n\n${batch.join('\n\n')}`
+        ));
+        report({ completed: progress.completed + 1 });
+      }
+    }
+  };
+
+  const pageSummaries: Record<number, string> = {};
+  await mapWithConcurrency(pages, CONCURRENCY, async (pageNumber) => {
+    const parts = chunkBySentences(pageTexts[pageNumber], textBudget, provider.kind);
+    const partSummaries: string[] = [];
+    for (const [index, part] of parts.entries()) {
+      const which = parts.length > 1 ? `part ${index + 1} of ${parts.length} of page ${pageNumber}` : `page ${pageNumber}`;
+      partSummaries.push(await ask(
+        `Summarize ${which} of the document in at most ${PAGE_SUMMARY_WORDS[length]} words, ` +
+        `keeping key facts, figures and names. If the text has no meaningful content, reply with "(empty)".\n\n${part}`
+      ));
+    }
+    const summary = partSummaries.filter(part => !/^\(empty\)\.?$/i.test(part)).join(' ') || '(empty)';
+    pageSummaries[pageNumber] = summary;
+    report({ completed: progress.completed + 1 });
+  });
+
+  report({ stage: 'Summarizing sections' });
+  const sectionSummaries: SectionSummary[] = [];
+  for (const section of sections) {
+    const inputs = pages
+      .filter(pageNumber => pageNumber >= section.startPage && pageNumber <= section.endPage)
+      .filter(pageNumber => !/^\(empty\)\.?$/i.test(pageSummaries[pageNumber]))
+      .map(pageNumber => `[p. ${pageNumber}] ${pageSummaries[pageNumber]}`);
+
+    let summary: string;
+    if (section.endPage === section.startPage) {
+      summary = inputs[0] ?? '';
+    } else {
+      summary = inputs.length > 0
+        ? await reduce(inputs, `Combine these page summaries of the section "${section.title}" (pages ${section.startPage}–${section.endPage}) into one summary of at most ${SECTION_SUMMARY_WORDS[length]} words.`)
+        : '';
+      report({ completed: progress.completed + 1 });
+    }
+    sectionSummaries.push({ ...section, summary });
+  }
+
+  report({ stage: 'Summarizing the document' });
+  const documentInputs = sectionSummaries
+    .filter(section => section.summary)
+    .map(section => `## ${section.title} (pages ${section.startPage}–${section.endPage})\n${section.summary}`);
+  const summary = documentInputs.length > 0
+    ? await reduce(documentInputs, `Summarize the whole document${documentTitle ? ` "${documentTitle}"` : ''} ${LENGTH_INSTRUCTIONS[length]}, based on these section summaries.`)
+    : '';
+  report({ completed: progress.total, stage: 'Done' });
+
+  return { summary, sections: sectionSummaries };
+};
+
+// Prompt for summarizing a single page at the chosen length
+export const buildPageSummaryPrompt = (pageNumber: number, pageText: string, length: SummaryLength) =>
+  `Summarize the following text from page ${pageNumber} ${LENGTH_INSTRUCTIONS[length]}. ${CITATION_INSTRUCTIONS}\n${pageText}`;
@@ -0,0 +1,120 @@
+import { AIProvider } from './ai';
+import { chunkBySentences, estimateTokens, getInputBudget } from './ai/tokens';
+import { getLanguageName } from './languages';
+
+// Paragraphs are sent in batches of at most this many tokens. A translation
+// is about as long as its original, so batches also stay well inside the
+// reply limit.
+const MAX_BATCH_TOKENS = 750;
+
+const TRANSLATOR_SYSTEM_PROMPT =
+  'You are a professional translator. Translate faithfully, keeping the meaning, tone, numbers and names of the original. ' +
+  'Reply with the translation only, without notes or explanations.';
+
+// Prompt for translating a page or a selection in one go
+export const buildTranslationMessages = (text: string, languageCode: string) => [
+  { role: 'system' as const, content: TRANSLATOR_SYSTEM_PROMPT },
+  { role: 'user' as const, content: `Translate the following text into ${getLanguageName(languageCode)}:\n\n${text}` },
+];
+
+const batchParagraphs = (sizes: number[], maxTokens: number) => {
+  const batches: number[][] = [];
+  let current: number[] = [];
+  let tokens = 0;
+
+  sizes.forEach((size, index) => {
+    if (current.length > 0 && tokens + size > maxTokens) {
+      batches.push(current);
+      current = [];
+      tokens = 0;
+    }
+    current.push(index);
+    tokens += size;
+  });
+  if (current.length > 0) batches.push(current);
+  return batches;
+};
+
+// Splits a reply of "[[n]] text" blocks back into paragraphs by number
+const parseNumberedReply = (reply: string) => {
+  const translations = new Map<number, string>();
+  const parts = reply.split(/\[\[(\d+)\]\]/);
+  for (let i = 1; i < parts.length; i += 2) {
+    const text = parts[i + 1].trim();
+    if (text) translations.set(Number(parts[i]), text);
+  }
+  return translations;
+};
+
+interface TranslateParagraphsOptions {
+  provider: AIProvider;
+  paragraphs: string[];
+  languageCode: string;
+  signal?: AbortSignal;
+  // Called with the translations so far after every batch
+  onProgress?: (translations: Array<string | undefined>) => void;
+}
+
+// Translates paragraphs one batch at a time, keeping them aligned with the
+// original: each paragraph is numbered in the request and matched back by
+// number. Paragraphs the model dropped are translated on their own, and
+// paragraphs too long for a batch are translated sentence-aligned part by part.
+export const translateParagraphs = async ({
+  provider,
+  paragraphs,
+  languageCode,
+  signal,
+  onProgress,
+}: TranslateParagraphsOptions) => {
+  const translations: Array<string | undefined> = new Array(paragraphs.length);
+  const language = getLanguageName(languageCode);
+  const { maxOutputTokens } = provider.getTokenLimits();
+  const batchTokens = Math.max(Math.min(MAX_BATCH_TOKENS, Math.floor(maxOutputTokens * 0.6), Math.floor(getInputBudget(provider) / 2)), 1);
+  const sizes = paragraphs.map(text => estimateTokens(text, provider.kind));
+
+  const complete = (content: string) => {
+    signal?.throwIfAborted();
+    return provider.complete({
+      messages: [
+        { role: 'system', content: TRANSLATOR_SYSTEM_PROMPT },
+        { role: 'user', content },
+      ],
+      signal,
+    });
+  };
+
+  const translateOnItsOwn = async (text: string) => {
+    const parts = chunkBySentences(text, batchTokens, provider.kind);
+    const translated: string[] = [];
+    for (const part of parts) {
+      translated.push((await complete(`Translate the following text into ${language}:\n\n${part}`)).trim());
+    }
+    return translated.join(' ');
+  };
+
+  for (const batch of batchParagraphs(sizes, batchTokens)) {
+    if (batch.length === 1 && sizes[batch[0]] > batchTokens) {
+      translations[batch[0]] = await translateOnItsOwn(paragraphs[batch[0]]);
+      onProgress?.([...translations]);
+      continue;
+    }
+
+    const numbered = batch.map(index => `[[${index + 1}]] ${paragraphs[index]}`).join('\n\n');
+    const reply = await complete(
+      `Translate each numbered paragraph into ${language}. Start every translated paragraph with the same [[n]] marker ` +
+      `as its original, keep the paragraphs in order, and do not merge or split them.\n\n${numbered}`
+    );
+
+    const parsed = parseNumberedReply(reply);
+    // A lone paragraph often comes back without its marker
+    if (batch.length === 1 && parsed.size === 0 && reply.trim()) {
+      parsed.set(batch[0] + 1, reply.trim());
+    }
+    for (const index of batch) {
+      translations[index] = parsed.get(index + 1) ?? await translateOnItsOwn(paragraphs[index]);
+    }
+    onProgress?.([...translations]);
+  }
+
+  return translations as string[];
+};
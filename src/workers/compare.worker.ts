@@ -0,0 +1,25 @@
+import { PageComparison, compareDocuments } from '@/lib/compare';
+
+export interface CompareRequest {
+  leftTexts: Record<number, string>;
+  leftPageCount: number;
+  rightTexts: Record<number, string>;
+  rightPageCount: number;
+}
+
+export type CompareResponse =
+  | { type: 'progress', completed: number, total: number }
+  | { type: 'result', comparison: PageComparison[] };
+
+// Compares two versions of a document off the main thread; aligning the
+// pages and diffing every pair can take seconds on long documents
+const scope = self as unknown as Worker;
+
+scope.onmessage = (event: MessageEvent<CompareRequest>) => {
+  const { leftTexts, leftPageCount, rightTexts, rightPageCount } = event.data;
+
+  const comparison = compareDocuments(leftTexts, leftPageCount, rightTexts, rightPageCount, (completed, total) => {
+    scope.postMessage({ type: 'progress', completed, total } satisfies CompareResponse);
+  });
+  scope.postMessage({ type: 'result', comparison } satisfies CompareResponse);
+};
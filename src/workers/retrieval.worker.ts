@@ -0,0 +1,25 @@
+import { Bm25Index, RetrievedChunk, TextChunk } from '@/lib/retrieval';
+
+export type RetrievalRequest =
+  | { type: 'add', chunks: TextChunk[] }
+  | { type: 'search', requestId: number, query: string, limit: number };
+
+export type RetrievalResponse =
+  | { type: 'indexed', size: number }
+  | { type: 'results', requestId: number, results: RetrievedChunk[] };
+
+// Keeps the BM25 index of one document off the main thread
+const index = new Bm25Index();
+const scope = self as unknown as Worker;
+
+scope.onmessage = (event: MessageEvent<RetrievalRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'add') {
+    index.add(request.chunks);
+    scope.postMessage({ type: 'indexed', size: index.size } satisfies RetrievalResponse);
+  } else if (request.type === 'search') {
+    const results = index.search(request.query, request.limit);
+    scope.postMessage({ type: 'results', requestId: request.requestId, results } satisfies RetrievalResponse);
+  }
+};